@@ -1,7 +1,20 @@
-import { AuthConfig, JwtConfig, LocalAuthConfig, OIDCConfig, SAMLConfig } from '../models';
+import {
+  AuthConfig,
+  JwtConfig,
+  LocalAuthConfig,
+  LockoutPolicy,
+  MailConfig,
+  OIDCConfig,
+  PasswordPolicy,
+  SAMLConfig,
+  TwoFactorPolicy,
+  UserRole
+} from '../models';
 
 export interface AppConfig {
   port: number;
+  publicUrl: string;
+  trustProxy: boolean | number | string;
   database: {
     path: string;
   };
@@ -13,21 +26,70 @@ export interface AppConfig {
     useSSL: boolean;
   };
   authentication: AuthConfig;
+  mail: MailConfig;
+  tags: {
+    enforceVocabulary: boolean;
+  };
+  uploads: {
+    maxFileSizeBytes: Record<UserRole, number>;
+    sessionExpiryHours: number;
+  };
+  recycleBin: {
+    retentionDays: number;
+  };
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+// Mirrors Express's 'trust proxy' setting: true/false, a hop count, or a list of trusted addresses
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : value;
 }
 
 export function loadConfig(): AppConfig {
   const jwtConfig: JwtConfig = {
     secret: process.env.JWT_SECRET || 'calcpad-jwt-secret-key-change-in-production-minimum-32-characters',
-    expiryInHours: parseInt(process.env.JWT_EXPIRY_HOURS || '24'),
+    accessTokenExpiryInMinutes: parseInt(process.env.JWT_ACCESS_TOKEN_EXPIRY_MINUTES || '15'),
+    refreshTokenExpiryInDays: parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS || '30'),
     issuer: process.env.JWT_ISSUER || 'CalcpadS3',
     audience: process.env.JWT_AUDIENCE || 'CalcpadClients'
   };
 
+  const passwordPolicy: PasswordPolicy = {
+    minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+    requireLetter: process.env.PASSWORD_REQUIRE_LETTER !== 'false',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true'
+  };
+
+  const lockoutPolicy: LockoutPolicy = {
+    maxFailedAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5'),
+    maxFailedAttemptsPerIp: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20'),
+    failureWindowMinutes: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15'),
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15')
+  };
+
+  const twoFactorPolicy: TwoFactorPolicy = {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'CalcpadS3',
+    requiredForAdmins: process.env.REQUIRE_TWO_FACTOR_FOR_ADMINS === 'true'
+  };
+
   const localAuthConfig: LocalAuthConfig = {
     enabled: process.env.LOCAL_AUTH_ENABLED !== 'false',
     requireEmailConfirmation: process.env.REQUIRE_EMAIL_CONFIRMATION === 'true',
     allowUserRegistration: process.env.ALLOW_USER_REGISTRATION !== 'false',
-    jwt: jwtConfig
+    jwt: jwtConfig,
+    passwordPolicy,
+    lockout: lockoutPolicy,
+    twoFactor: twoFactorPolicy
   };
 
   const oidcConfig: OIDCConfig = {
@@ -37,7 +99,15 @@ export function loadConfig(): AppConfig {
     clientSecret: process.env.OIDC_CLIENT_SECRET || '',
     scope: process.env.OIDC_SCOPE || 'openid profile email',
     responseType: process.env.OIDC_RESPONSE_TYPE || 'code',
-    callbackPath: process.env.OIDC_CALLBACK_PATH || '/signin-oidc'
+    callbackPath: process.env.OIDC_CALLBACK_PATH || '/signin-oidc',
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    postLoginRedirectUri: process.env.OIDC_POST_LOGIN_REDIRECT_URI || undefined,
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'roles',
+    linkByEmail: process.env.OIDC_LINK_BY_EMAIL === 'true',
+    adminRoles: parseList(process.env.OIDC_ADMIN_ROLES),
+    contributorRoles: parseList(process.env.OIDC_CONTRIBUTOR_ROLES),
+    viewerRoles: parseList(process.env.OIDC_VIEWER_ROLES),
+    defaultRole: UserRole[process.env.OIDC_DEFAULT_ROLE as keyof typeof UserRole] || UserRole.Viewer
   };
 
   const samlConfig: SAMLConfig = {
@@ -45,9 +115,35 @@ export function loadConfig(): AppConfig {
     entityId: process.env.SAML_ENTITY_ID || '',
     signOnUrl: process.env.SAML_SIGN_ON_URL || '',
     certificate: process.env.SAML_CERTIFICATE || '',
-    callbackPath: process.env.SAML_CALLBACK_PATH || '/signin-saml'
+    callbackPath: process.env.SAML_CALLBACK_PATH || '/signin-saml',
+    callbackUrl: process.env.SAML_CALLBACK_URL || undefined,
+    idpEntityId: process.env.SAML_IDP_ENTITY_ID || undefined,
+    postLoginRedirectUri: process.env.SAML_POST_LOGIN_REDIRECT_URI || undefined,
+    roleAttribute: process.env.SAML_ROLE_ATTRIBUTE || 'http://schemas.microsoft.com/ws/2008/06/identity/claims/role',
+    emailAttribute: process.env.SAML_EMAIL_ATTRIBUTE || 'email',
+    usernameAttribute: process.env.SAML_USERNAME_ATTRIBUTE || undefined,
+    linkByEmail: process.env.SAML_LINK_BY_EMAIL === 'true',
+    adminRoles: parseList(process.env.SAML_ADMIN_ROLES),
+    contributorRoles: parseList(process.env.SAML_CONTRIBUTOR_ROLES),
+    viewerRoles: parseList(process.env.SAML_VIEWER_ROLES),
+    defaultRole: UserRole[process.env.SAML_DEFAULT_ROLE as keyof typeof UserRole] || UserRole.Viewer
   };
 
+  const mailConfig: MailConfig = {
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox',
+    from: process.env.MAIL_FROM || 'CalcpadS3 <no-reply@localhost>',
+    outboxPath: process.env.MAIL_OUTBOX_PATH || '/app/data/outbox',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      username: process.env.SMTP_USERNAME || undefined,
+      password: process.env.SMTP_PASSWORD || undefined
+    }
+  };
+
+  const port = parseInt(process.env.PORT || '5000');
+
   const authConfig: AuthConfig = {
     provider: (process.env.AUTH_PROVIDER as 'Local' | 'OIDC' | 'SAML') || 'Local',
     local: localAuthConfig,
@@ -56,7 +152,9 @@ export function loadConfig(): AppConfig {
   };
 
   return {
-    port: parseInt(process.env.PORT || '5000'),
+    port,
+    publicUrl: process.env.PUBLIC_URL || `http://localhost:${port}`,
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
     database: {
       path: process.env.DATABASE_PATH || '/app/data/calcpad.db'
     },
@@ -67,6 +165,24 @@ export function loadConfig(): AppConfig {
       bucketName: process.env.MINIO_BUCKET_NAME || 'calcpad-storage',
       useSSL: process.env.MINIO_USE_SSL === 'true'
     },
-    authentication: authConfig
+    authentication: authConfig,
+    mail: mailConfig,
+    tags: {
+      enforceVocabulary: process.env.ENFORCE_TAG_VOCABULARY === 'true'
+    },
+    uploads: {
+      // Viewers cannot upload at all
+      maxFileSizeBytes: {
+        [UserRole.Viewer]: 0,
+        [UserRole.Contributor]: parseInt(process.env.UPLOAD_MAX_SIZE_MB_CONTRIBUTOR || '100') * 1024 * 1024,
+        [UserRole.Admin]: parseInt(process.env.UPLOAD_MAX_SIZE_MB_ADMIN || '1024') * 1024 * 1024
+      },
+      // Upload sessions without a new part for this long are aborted
+      sessionExpiryHours: parseInt(process.env.UPLOAD_SESSION_EXPIRY_HOURS || '24')
+    },
+    recycleBin: {
+      // Deleted files can be restored for this long before they are purged
+      retentionDays: parseInt(process.env.RECYCLE_BIN_RETENTION_DAYS || '30')
+    }
   };
 }
\ No newline at end of file
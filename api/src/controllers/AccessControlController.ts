@@ -0,0 +1,276 @@
+import { Request, Response } from 'express';
+import { AccessControlService, AccessGrantConflictError, UserService } from '../services';
+import {
+  UserRole,
+  FilePermission,
+  CreateGroupRequest,
+  AddGroupMemberRequest,
+  CreateAccessGrantRequest
+} from '../models';
+import { normalizeGrantPath } from '../utils';
+import Joi from 'joi';
+
+export class AccessControlController {
+  private accessControlService: AccessControlService;
+  private userService: UserService;
+
+  constructor(accessControlService: AccessControlService, userService: UserService) {
+    this.accessControlService = accessControlService;
+    this.userService = userService;
+  }
+
+  getGroups = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const groups = await this.accessControlService.getGroupsAsync();
+      res.json(groups);
+    } catch (error) {
+      console.error('Error getting groups:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        name: Joi.string().min(1).max(100).required(),
+        description: Joi.string().max(500).allow('').optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: CreateGroupRequest = value;
+
+      if (await this.accessControlService.getGroupByNameAsync(request.name)) {
+        res.status(409).json({ message: `Group '${request.name}' already exists` });
+        return;
+      }
+
+      const group = await this.accessControlService.createGroupAsync(request);
+      res.status(201).json(group);
+    } catch (error) {
+      console.error('Error creating group:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  deleteGroup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const groupId = parseInt(req.params.id, 10);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({ message: 'Invalid group ID' });
+        return;
+      }
+
+      const deleted = await this.accessControlService.deleteGroupAsync(groupId);
+
+      if (deleted) {
+        res.json({ message: 'Group deleted successfully' });
+      } else {
+        res.status(404).json({ message: 'Group not found' });
+      }
+    } catch (error) {
+      if (error instanceof AccessGrantConflictError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error deleting group:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  addGroupMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const groupId = parseInt(req.params.id, 10);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({ message: 'Invalid group ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        userId: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: AddGroupMemberRequest = value;
+
+      if (!(await this.accessControlService.getGroupByIdAsync(groupId))) {
+        res.status(404).json({ message: 'Group not found' });
+        return;
+      }
+
+      if (!(await this.userService.getUserByIdAsync(request.userId))) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      const added = await this.accessControlService.addGroupMemberAsync(groupId, request.userId);
+
+      if (!added) {
+        res.status(409).json({ message: 'User is already a member of this group' });
+        return;
+      }
+
+      res.status(201).json(await this.accessControlService.getGroupByIdAsync(groupId));
+    } catch (error) {
+      console.error('Error adding group member:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  removeGroupMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const groupId = parseInt(req.params.id, 10);
+
+      if (isNaN(groupId)) {
+        res.status(400).json({ message: 'Invalid group ID' });
+        return;
+      }
+
+      const removed = await this.accessControlService.removeGroupMemberAsync(groupId, req.params.userId);
+
+      if (removed) {
+        res.json({ message: 'Member removed successfully' });
+      } else {
+        res.status(404).json({ message: 'Group member not found' });
+      }
+    } catch (error) {
+      console.error('Error removing group member:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getGrants = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const grants = await this.accessControlService.getGrantsAsync();
+      res.json(grants);
+    } catch (error) {
+      console.error('Error getting access grants:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createGrant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      // An empty permission list still restricts the path, hiding it from everyone outside other grants
+      const schema = Joi.object({
+        pathPrefix: Joi.string().required(),
+        groupId: Joi.number().integer().required(),
+        permissions: Joi.array().items(Joi.string().valid(...Object.values(FilePermission))).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const pathPrefix = normalizeGrantPath(value.pathPrefix);
+      if (!pathPrefix) {
+        res.status(400).json({ message: 'Invalid path prefix' });
+        return;
+      }
+
+      const request: CreateAccessGrantRequest = { ...value, pathPrefix };
+
+      if (!(await this.accessControlService.getGroupByIdAsync(request.groupId))) {
+        res.status(404).json({ message: 'Group not found' });
+        return;
+      }
+
+      const grant = await this.accessControlService.grantAsync(request, req.userContext);
+      res.status(201).json(grant);
+    } catch (error) {
+      console.error('Error creating access grant:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  deleteGrant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const grantId = parseInt(req.params.id, 10);
+
+      if (isNaN(grantId)) {
+        res.status(400).json({ message: 'Invalid grant ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        unrestrict: Joi.boolean().default(false)
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const deleted = await this.accessControlService.revokeGrantAsync(grantId, value.unrestrict);
+
+      if (deleted) {
+        res.json({ message: 'Access grant deleted successfully' });
+      } else {
+        res.status(404).json({ message: 'Access grant not found' });
+      }
+    } catch (error) {
+      if (error instanceof AccessGrantConflictError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error deleting access grant:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
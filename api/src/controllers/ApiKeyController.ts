@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services';
+import { UserRole, ApiKeyScope, BucketScope, CreateApiKeyRequest } from '../models';
+import Joi from 'joi';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor(apiKeyService: ApiKeyService) {
+    this.apiKeyService = apiKeyService;
+  }
+
+  getApiKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const apiKeys = await this.apiKeyService.getKeysAsync(req.userContext.userId);
+      res.json(apiKeys);
+    } catch (error) {
+      console.error('Error getting API keys:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createApiKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        name: Joi.string().min(1).max(100).required(),
+        scopes: Joi.array().items(Joi.string().valid(...Object.values(ApiKeyScope))).min(1).required(),
+        bucket: Joi.string().valid(...Object.values(BucketScope)).optional(),
+        expiresAt: Joi.date().iso().greater('now').optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: CreateApiKeyRequest = {
+        ...value,
+        expiresAt: value.expiresAt ? (value.expiresAt as Date).toISOString() : undefined
+      };
+
+      const apiKey = await this.apiKeyService.createAsync(request, req.userContext);
+
+      if (!apiKey) {
+        res.status(403).json({ message: `You do not have access to the ${request.bucket} bucket` });
+        return;
+      }
+
+      // The key itself is only ever returned here
+      res.status(201).json(apiKey);
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const apiKey = await this.apiKeyService.getKeyByIdAsync(req.params.id);
+
+      // Admins may revoke anyone's key; other users only see their own
+      if (!apiKey || (apiKey.userId !== req.userContext.userId && req.userContext.role < UserRole.Admin)) {
+        res.status(404).json({ message: 'API key not found' });
+        return;
+      }
+
+      if (apiKey.revokedAt) {
+        res.status(409).json({ message: 'API key is already revoked' });
+        return;
+      }
+
+      await this.apiKeyService.revokeAsync(apiKey.id);
+      res.json({ message: 'API key revoked successfully' });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
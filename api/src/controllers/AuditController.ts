@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services';
+import { UserRole, AuditOutcome, AuditQuery } from '../models';
+import Joi from 'joi';
+
+const MAX_EXPORT_ENTRIES = 10000;
+
+export class AuditController {
+  private auditService: AuditService;
+
+  constructor(auditService: AuditService) {
+    this.auditService = auditService;
+  }
+
+  getEntries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const query = this.parseQuery(req, res, 500, 100);
+      if (!query) {
+        return;
+      }
+
+      const result = await this.auditService.queryAsync(query);
+      res.json(result);
+    } catch (error) {
+      console.error('Error getting audit entries:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  exportEntries = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const query = this.parseQuery(req, res, MAX_EXPORT_ENTRIES, MAX_EXPORT_ENTRIES);
+      if (!query) {
+        return;
+      }
+
+      const result = await this.auditService.queryAsync(query);
+      const format = req.query.format === 'json' ? 'json' : 'csv';
+      const fileName = `audit-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      // Larger exports continue from this cursor
+      if (result.nextCursor) {
+        res.setHeader('X-Next-Cursor', result.nextCursor);
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+      if (format === 'json') {
+        res.json(result.items);
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.send(this.auditService.formatCsv(result.items));
+      }
+    } catch (error) {
+      console.error('Error exporting audit entries:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  private parseQuery(req: Request, res: Response, maxLimit: number, defaultLimit: number): AuditQuery | null {
+    const schema = Joi.object({
+      actor: Joi.string().optional(),
+      action: Joi.string().optional(),
+      object: Joi.string().optional(),
+      outcome: Joi.string().valid(...Object.values(AuditOutcome)).optional(),
+      from: Joi.date().iso().optional(),
+      to: Joi.date().iso().optional(),
+      limit: Joi.number().integer().min(1).max(maxLimit).default(defaultLimit),
+      cursor: Joi.string().optional(),
+      format: Joi.string().valid('csv', 'json').optional()
+    });
+
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      res.status(400).json({ message: error.details[0].message });
+      return null;
+    }
+
+    return {
+      actor: value.actor,
+      action: value.action,
+      object: value.object,
+      outcome: value.outcome,
+      from: value.from?.toISOString(),
+      to: value.to?.toISOString(),
+      limit: value.limit,
+      cursor: value.cursor
+    };
+  }
+}
\ No newline at end of file
@@ -1,13 +1,26 @@
 import { Request, Response } from 'express';
-import { UserService } from '../services';
-import { LoginRequest, RegisterRequest, UserRole } from '../models';
+import { UserService, SessionService, LoginThrottleService } from '../services';
+import {
+  LoginRequest,
+  RegisterRequest,
+  RefreshTokenRequest,
+  ChangePasswordRequest,
+  ResetPasswordRequest,
+  TwoFactorLoginRequest,
+  LoginThrottleStatus,
+  UserRole
+} from '../models';
 import Joi from 'joi';
 
 export class AuthController {
   private userService: UserService;
+  private sessionService: SessionService;
+  private loginThrottleService: LoginThrottleService;
 
-  constructor(userService: UserService) {
+  constructor(userService: UserService, sessionService: SessionService, loginThrottleService: LoginThrottleService) {
     this.userService = userService;
+    this.sessionService = sessionService;
+    this.loginThrottleService = loginThrottleService;
   }
 
   login = async (req: Request, res: Response): Promise<void> => {
@@ -24,14 +37,30 @@ export class AuthController {
       }
 
       const loginRequest: LoginRequest = value;
+      const ipAddress = req.ip || 'unknown';
+
+      // Rejected before the password is checked so throttled attempts reveal nothing
+      const throttle = await this.loginThrottleService.checkAsync(loginRequest.username, ipAddress);
+      if (!throttle.allowed) {
+        this.sendThrottled(res, throttle);
+        return;
+      }
+
       const authResponse = await this.userService.loginAsync(loginRequest);
 
       if (!authResponse) {
         console.error('Login failed for username:', loginRequest.username);
+        await this.recordFailedLoginAsync(loginRequest.username, ipAddress);
+
         res.status(401).json({ message: 'Invalid username or password' });
         return;
       }
 
+      // Failures only reset once the second factor has been passed too
+      if (!('twoFactorRequired' in authResponse)) {
+        await this.loginThrottleService.recordSuccessAsync(loginRequest.username);
+      }
+
       res.json(authResponse);
     } catch (error) {
       console.error('Error during login:', error);
@@ -39,6 +68,97 @@ export class AuthController {
     }
   };
 
+  loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        challengeToken: Joi.string().required(),
+        code: Joi.string().max(32).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: TwoFactorLoginRequest = value;
+      const user = await this.userService.getTwoFactorChallengeUserAsync(request.challengeToken);
+      res.locals.auditActor = user?.username;
+
+      if (!user) {
+        res.status(401).json({ message: 'Invalid or expired challenge, log in again' });
+        return;
+      }
+
+      // Code guesses count against the same limits as password guesses
+      const ipAddress = req.ip || 'unknown';
+      const throttle = await this.loginThrottleService.checkAsync(user.username, ipAddress);
+      if (!throttle.allowed) {
+        this.sendThrottled(res, throttle);
+        return;
+      }
+
+      const authResponse = await this.userService.completeTwoFactorLoginAsync(request.challengeToken, request.code);
+
+      if (!authResponse) {
+        console.error('Two-factor login failed for username:', user.username);
+        await this.recordFailedLoginAsync(user.username, ipAddress);
+
+        res.status(401).json({ message: 'Invalid two-factor code' });
+        return;
+      }
+
+      await this.loginThrottleService.recordSuccessAsync(user.username);
+      res.json(authResponse);
+    } catch (error) {
+      console.error('Error during two-factor login:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        refreshToken: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: RefreshTokenRequest = value;
+      const authResponse = await this.sessionService.refreshAsync(request.refreshToken);
+      res.locals.auditActor = authResponse?.user.username;
+
+      if (!authResponse) {
+        res.status(401).json({ message: 'Invalid or expired refresh token' });
+        return;
+      }
+
+      res.json(authResponse);
+    } catch (error) {
+      console.error('Error refreshing token:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || !req.userContext.sessionId) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      await this.sessionService.revokeSessionAsync(req.userContext.sessionId);
+      res.json({ message: 'Logged out successfully' });
+    } catch (error) {
+      console.error('Error during logout:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   register = async (req: Request, res: Response): Promise<void> => {
     try {
       // Only admins can register new users
@@ -61,6 +181,13 @@ export class AuthController {
       }
 
       const registerRequest: RegisterRequest = value;
+
+      const policyError = this.userService.checkPasswordPolicy(registerRequest.password, registerRequest.username);
+      if (policyError) {
+        res.status(400).json({ message: policyError });
+        return;
+      }
+
       const authResponse = await this.userService.registerAsync(registerRequest);
 
       if (!authResponse) {
@@ -75,6 +202,91 @@ export class AuthController {
     }
   };
 
+  changePassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        currentPassword: Joi.string().required(),
+        newPassword: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: ChangePasswordRequest = value;
+
+      if (request.newPassword === request.currentPassword) {
+        res.status(400).json({ message: 'New password must differ from the current password' });
+        return;
+      }
+
+      const policyError = this.userService.checkPasswordPolicy(request.newPassword, req.userContext.username);
+      if (policyError) {
+        res.status(400).json({ message: policyError });
+        return;
+      }
+
+      const changed = await this.userService.changePasswordAsync(
+        req.userContext.userId,
+        request.currentPassword,
+        request.newPassword,
+        req.userContext.sessionId
+      );
+
+      if (!changed) {
+        res.status(400).json({ message: 'Current password is incorrect' });
+        return;
+      }
+
+      res.json({ message: 'Password changed successfully' });
+    } catch (error) {
+      console.error('Error changing password:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  resetPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        token: Joi.string().required(),
+        newPassword: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: ResetPasswordRequest = value;
+
+      const policyError = this.userService.checkPasswordPolicy(request.newPassword);
+      if (policyError) {
+        res.status(400).json({ message: policyError });
+        return;
+      }
+
+      const reset = await this.userService.resetPasswordAsync(request.token, request.newPassword);
+
+      if (!reset) {
+        res.status(400).json({ message: 'Invalid or expired reset token' });
+        return;
+      }
+
+      res.json({ message: 'Password reset successfully' });
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   getProfile = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -95,4 +307,21 @@ export class AuthController {
       res.status(500).json({ message: 'Internal server error' });
     }
   };
+
+  private sendThrottled(res: Response, throttle: LoginThrottleStatus): void {
+    res.set('Retry-After', String(throttle.retryAfterSeconds));
+    res.status(429).json({
+      message: throttle.lockedOut
+        ? 'Too many failed login attempts, try again later'
+        : 'Please wait before trying to log in again',
+      retryAfter: throttle.retryAfterSeconds
+    });
+  }
+
+  private async recordFailedLoginAsync(username: string, ipAddress: string): Promise<void> {
+    const lockouts = await this.loginThrottleService.recordFailureAsync(username, ipAddress);
+    for (const lockout of lockouts) {
+      console.warn(`Login locked out for ${lockout.scope} '${lockout.subject}' until ${lockout.lockedUntil}`);
+    }
+  }
 }
\ No newline at end of file
@@ -24,13 +24,16 @@ export class AuthInfoController {
           clientId: this.authConfig.oidc.clientId,
           scope: this.authConfig.oidc.scope,
           responseType: this.authConfig.oidc.responseType,
-          callbackPath: this.authConfig.oidc.callbackPath
+          callbackPath: this.authConfig.oidc.callbackPath,
+          loginPath: '/api/auth/oidc/login'
         },
         saml: {
           enabled: this.authConfig.saml.enabled,
           entityId: this.authConfig.saml.entityId,
           signOnUrl: this.authConfig.saml.signOnUrl,
-          callbackPath: this.authConfig.saml.callbackPath
+          callbackPath: this.authConfig.saml.callbackPath,
+          loginPath: '/api/auth/saml/login',
+          metadataPath: '/api/auth/saml/metadata'
         }
       };
 
@@ -1,14 +1,71 @@
 import { Request, Response } from 'express';
-import { BlobStorageService } from '../services';
-import { UserRole, TagsUpdateRequest } from '../models';
+import {
+  BlobStorageService,
+  SignOffService,
+  TagsService,
+  AccessDeniedError,
+  RecycleBinError,
+  runBulkAsync
+} from '../services';
+import {
+  UserRole,
+  UserContext,
+  TagsUpdateRequest,
+  FileQuery,
+  BulkItemResult,
+  BulkTagMode,
+  BulkTagsRequest,
+  ZipDownloadRequest,
+  RestoreVersionRequest,
+  DeletedFileQuery
+} from '../models';
+import { receiveUploadAsync, receiveUploadsAsync, UploadError } from '../middleware';
+import {
+  normalizeFolderPath,
+  normalizeFilePath,
+  decodeCursor,
+  parseTagExpression,
+  TagExpression,
+  TagExpressionError,
+  diffLines,
+  formatUnifiedDiff,
+  DiffError
+} from '../utils';
 import Joi from 'joi';
+import path from 'path';
+import { once } from 'events';
 import { Readable } from 'stream';
+import archiver from 'archiver';
+
+// Allowance for multipart boundaries and the form fields sent alongside the file
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+const MAX_BATCH_UPLOAD_FILES = 500;
+const MAX_BULK_FILES = 1000;
+const MAX_ZIP_FILES = 5000;
+const MAX_VERSION_COMMENT_LENGTH = 500;
+
+interface UploadFields {
+  folderPath: string;
+  tags?: string[];
+  metadata?: Record<string, string>;
+}
 
 export class BlobStorageController {
   private blobStorageService: BlobStorageService;
+  private signOffService: SignOffService;
+  private tagsService: TagsService;
+  private maxUploadBytes: Record<UserRole, number>;
 
-  constructor(blobStorageService: BlobStorageService) {
+  constructor(
+    blobStorageService: BlobStorageService,
+    signOffService: SignOffService,
+    tagsService: TagsService,
+    maxUploadBytes: Record<UserRole, number>
+  ) {
     this.blobStorageService = blobStorageService;
+    this.signOffService = signOffService;
+    this.tagsService = tagsService;
+    this.maxUploadBytes = maxUploadBytes;
   }
 
   uploadFile = async (req: Request, res: Response): Promise<void> => {
@@ -18,32 +75,177 @@ export class BlobStorageController {
         return;
       }
 
-      if (!req.file) {
-        res.status(400).json({ message: 'No file provided' });
+      const maxFileSizeBytes = this.maxUploadBytes[req.userContext.role] || 0;
+
+      // The body also carries multipart framing and fields, so only reject what is certainly too large up front
+      const contentLength = parseInt(req.headers['content-length'] || '', 10);
+      if (contentLength > maxFileSizeBytes + MULTIPART_OVERHEAD_BYTES) {
+        res.status(413).json({ message: 'File exceeds the upload limit', maxFileSizeBytes });
         return;
       }
 
-      const tags = req.body.tags ? JSON.parse(req.body.tags) : undefined;
-      const metadata = req.body.metadata ? JSON.parse(req.body.metadata) : undefined;
+      const file = await receiveUploadAsync(req, res, 'file', maxFileSizeBytes, this.storeUploadAsync);
 
-      const fileStream = Readable.from(req.file.buffer);
-      
-      const fileName = await this.blobStorageService.uploadFileAsync(
-        req.file.originalname,
-        fileStream,
-        req.userContext,
-        req.file.mimetype,
-        tags,
-        metadata
-      );
+      if (!file) {
+        res.status(400).json({ message: 'No file provided' });
+        return;
+      }
 
-      res.json({ fileName, message: 'File uploaded successfully' });
+      // Sign-offs recorded against the content that was just replaced no longer apply
+      await this.signOffService.invalidateStaleSignOffsAsync(file.path);
+
+      res.json({ fileName: file.path, size: file.size, message: 'File uploaded successfully' });
     } catch (error) {
+      if (error instanceof UploadError) {
+        res.status(error.statusCode).json({ message: error.message, ...error.details });
+        return;
+      }
+
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
       console.error('Error uploading file:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   };
 
+  uploadFiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const userContext = req.userContext;
+      const maxFileSizeBytes = this.maxUploadBytes[userContext.role] || 0;
+      const results: BulkItemResult[] = [];
+      let fields: UploadFields | undefined;
+
+      // Folder, tags and metadata apply to every file, so a problem with them fails the whole request;
+      // a file that can't be stored is reported and the rest carry on
+      const files = await receiveUploadsAsync(req, res, 'files', maxFileSizeBytes, MAX_BATCH_UPLOAD_FILES, async (request, file) => {
+        fields = fields || await this.parseUploadFieldsAsync(request);
+        const relativePath = normalizeFilePath(file.originalname);
+
+        if (!relativePath) {
+          file.stream.resume();
+          results.push({ fileName: file.originalname, success: false, status: 400, message: 'Invalid file name' });
+          return file.originalname;
+        }
+
+        const fileName = fields.folderPath + relativePath;
+
+        try {
+          await this.blobStorageService.uploadFileAsync(fileName, file.stream, userContext, file.mimetype, fields.tags, fields.metadata);
+          results.push({ fileName, success: true, status: 200 });
+        } catch (error) {
+          if (error instanceof UploadError) {
+            throw error;
+          }
+
+          file.stream.resume();
+          if (error instanceof AccessDeniedError) {
+            results.push({ fileName, success: false, status: 403, message: error.message });
+          } else {
+            console.error(`Error uploading '${fileName}':`, error);
+            results.push({ fileName, success: false, status: 500, message: 'Internal server error' });
+          }
+        }
+
+        return fileName;
+      });
+
+      if (files.length === 0) {
+        res.status(400).json({ message: 'No files provided' });
+        return;
+      }
+
+      const stored = results.filter(result => result.success).map(result => result.fileName);
+      res.locals.auditObjects = stored;
+
+      // Sign-offs recorded against the content that was just replaced no longer apply
+      for (const fileName of stored) {
+        await this.signOffService.invalidateStaleSignOffsAsync(fileName);
+      }
+
+      res.json({ succeeded: stored.length, failed: results.length - stored.length, results });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        res.status(error.statusCode).json({ message: error.message, ...error.details });
+        return;
+      }
+
+      console.error('Error uploading files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  // Runs when the file part starts arriving; clients must send folder, tags and metadata before it
+  private storeUploadAsync = async (req: Request, file: Express.Multer.File): Promise<string> => {
+    const { folderPath, tags, metadata } = await this.parseUploadFieldsAsync(req);
+    const fileName = normalizeFilePath(file.originalname);
+
+    if (!fileName) {
+      throw new UploadError(400, 'Invalid file name');
+    }
+
+    return this.blobStorageService.uploadFileAsync(
+      folderPath + fileName,
+      file.stream,
+      req.userContext as UserContext,
+      file.mimetype,
+      tags,
+      metadata
+    );
+  };
+
+  private async parseUploadFieldsAsync(req: Request): Promise<UploadFields> {
+    const tags = this.parseJsonField(req.body.tags, 'tags') as string[] | undefined;
+    let metadata = this.parseJsonField(req.body.metadata, 'metadata') as Record<string, string> | undefined;
+
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      throw new UploadError(400, 'Tags must be an array of strings');
+    }
+
+    const invalidTags = await this.tagsService.findInvalidTagsAsync(tags || []);
+    if (invalidTags.length > 0) {
+      throw new UploadError(400, 'Tags are not in the tag vocabulary', { invalidTags });
+    }
+
+    // Kept in the version's own metadata; encoded because metadata travels in ASCII headers
+    if (typeof req.body.comment === 'string' && req.body.comment.length > 0) {
+      if (req.body.comment.length > MAX_VERSION_COMMENT_LENGTH) {
+        throw new UploadError(400, `Comment must be at most ${MAX_VERSION_COMMENT_LENGTH} characters`);
+      }
+      metadata = { ...metadata, 'version-comment': encodeURIComponent(req.body.comment) };
+    }
+
+    let folderPath = '';
+    if (req.body.folder) {
+      const normalized = normalizeFolderPath(req.body.folder);
+      if (!normalized) {
+        throw new UploadError(400, 'Invalid folder path');
+      }
+      folderPath = normalized;
+    }
+
+    return { folderPath, tags, metadata };
+  }
+
+  private parseJsonField(value: unknown, field: string): unknown {
+    if (typeof value !== 'string' || value.length === 0) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      throw new UploadError(400, `Field '${field}' is not valid JSON`);
+    }
+  }
+
   downloadFile = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -60,7 +262,7 @@ export class BlobStorageController {
 
       const fileStream = await this.blobStorageService.downloadFileAsync(fileName, req.userContext);
       
-      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${path.posix.basename(fileName)}"`);
       res.setHeader('Content-Type', 'application/octet-stream');
       
       fileStream.pipe(res);
@@ -70,9 +272,125 @@ export class BlobStorageController {
     }
   };
 
+  downloadZip = async (req: Request, res: Response): Promise<void> => {
+    const archive = archiver('zip');
+
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        files: Joi.array().items(Joi.string()).min(1).max(MAX_ZIP_FILES),
+        prefix: Joi.string()
+      }).xor('files', 'prefix');
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: ZipDownloadRequest = value;
+      let fileNames: string[];
+      let prefix = '';
+
+      if (request.prefix !== undefined) {
+        const normalized = normalizeFolderPath(request.prefix);
+        if (!normalized) {
+          res.status(400).json({ message: 'Invalid folder path' });
+          return;
+        }
+        prefix = normalized;
+
+        // Folder placeholders hold no content
+        fileNames = (await this.blobStorageService.listFilesAsync(req.userContext, prefix, true))
+          .filter(fileName => !fileName.endsWith('/'));
+
+        if (fileNames.length === 0) {
+          res.status(404).json({ message: `Folder '${prefix}' not found or empty` });
+          return;
+        }
+        if (fileNames.length > MAX_ZIP_FILES) {
+          res.status(400).json({ message: `Folder '${prefix}' holds more than ${MAX_ZIP_FILES} files` });
+          return;
+        }
+      } else {
+        fileNames = [...new Set(request.files)];
+
+        const missing: string[] = [];
+        for (const fileName of fileNames) {
+          if (!(await this.blobStorageService.fileExistsAsync(fileName, req.userContext))) {
+            missing.push(fileName);
+          }
+        }
+
+        if (missing.length > 0) {
+          res.status(404).json({ message: 'Some files were not found', missing });
+          return;
+        }
+      }
+
+      const archiveName = prefix ? path.posix.basename(prefix) : 'files';
+      res.setHeader('Content-Disposition', `attachment; filename="${archiveName}.zip"`);
+      res.setHeader('Content-Type', 'application/zip');
+
+      let currentStream: Readable | undefined;
+
+      // A client that goes away stops the archive, which would otherwise never emit the entry being waited for
+      const disconnected = new Promise<never>((_, reject) => {
+        res.on('close', () => {
+          if (!res.writableFinished) {
+            archive.abort();
+            currentStream?.destroy();
+            reject(new Error('Client disconnected'));
+          }
+        });
+      });
+      disconnected.catch(() => undefined);
+
+      archive.on('warning', warning => console.error('Warning creating ZIP archive:', warning));
+      archive.pipe(res);
+
+      // Files are fetched one at a time as the archive is written, so only one download is open at once
+      for (const fileName of fileNames) {
+        currentStream = await this.blobStorageService.downloadFileAsync(fileName, req.userContext);
+
+        if (res.destroyed) {
+          currentStream.destroy();
+          return;
+        }
+
+        archive.append(currentStream, { name: prefix ? fileName.slice(prefix.length) : fileName });
+        await Promise.race([once(archive, 'entry'), disconnected]);
+      }
+
+      await archive.finalize();
+    } catch (error) {
+      // Nobody is left to answer once the client has disconnected
+      if (res.destroyed) {
+        archive.abort();
+        return;
+      }
+
+      console.error('Error creating ZIP archive:', error);
+
+      // Once the archive has started there is no way to report the failure but to cut the download short
+      if (res.headersSent) {
+        archive.abort();
+        res.destroy();
+        return;
+      }
+
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   deleteFile = async (req: Request, res: Response): Promise<void> => {
     try {
-      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+      // Contributors may delete where a grant allows it; the storage service checks the path
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
         res.status(403).json({ message: 'Insufficient permissions' });
         return;
       }
@@ -87,16 +405,57 @@ export class BlobStorageController {
       const deleted = await this.blobStorageService.deleteFileAsync(fileName, req.userContext);
 
       if (deleted) {
-        res.json({ message: `File '${fileName}' deleted successfully` });
+        res.json({ message: `File '${fileName}' moved to the recycle bin` });
       } else {
         res.status(500).json({ message: 'Failed to delete file' });
       }
     } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
       console.error('Error deleting file:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   };
 
+  deleteFiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        files: Joi.array().items(Joi.string()).min(1).max(MAX_BULK_FILES).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const userContext = req.userContext;
+      const result = await runBulkAsync(value.files, async fileName => {
+        if (!(await this.blobStorageService.fileExistsAsync(fileName, userContext))) {
+          return { status: 404, message: `File '${fileName}' not found` };
+        }
+
+        return await this.blobStorageService.deleteFileAsync(fileName, userContext)
+          ? { status: 200 }
+          : { status: 500, message: 'Failed to delete file' };
+      });
+
+      res.locals.auditObjects = result.results.filter(item => item.success).map(item => item.fileName);
+      res.json(result);
+    } catch (error) {
+      console.error('Error deleting files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   listFiles = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -104,7 +463,12 @@ export class BlobStorageController {
         return;
       }
 
-      const files = await this.blobStorageService.listFilesAsync(req.userContext);
+      const listing = this.parseListingQuery(req, res);
+      if (!listing) {
+        return;
+      }
+
+      const files = await this.blobStorageService.listFilesAsync(req.userContext, listing.prefix, listing.recursive);
       res.json(files);
     } catch (error) {
       console.error('Error listing files:', error);
@@ -119,14 +483,138 @@ export class BlobStorageController {
         return;
       }
 
-      const files = await this.blobStorageService.listFilesWithMetadataAsync(req.userContext);
-      res.json(files);
+      const listing = this.parseListingQuery(req, res);
+      if (!listing) {
+        return;
+      }
+
+      const files = await this.blobStorageService.listFilesWithMetadataAsync(
+        req.userContext,
+        listing.prefix,
+        listing.recursive
+      );
+      res.json(await this.signOffService.applySignOffsAsync(files));
     } catch (error) {
       console.error('Error listing files with metadata:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   };
 
+  queryFiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        prefix: Joi.string().allow('').optional(),
+        category: Joi.string().optional(),
+        tags: Joi.string().optional(),
+        contentType: Joi.string().optional(),
+        createdBy: Joi.string().optional(),
+        modifiedAfter: Joi.date().iso().optional(),
+        modifiedBefore: Joi.date().iso().optional(),
+        sortBy: Joi.string().valid('lastModified', 'size', 'name', 'createdBy').default('lastModified'),
+        sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+        limit: Joi.number().integer().min(1).max(500).default(50),
+        cursor: Joi.string().optional()
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      if (value.cursor && !decodeCursor(value.cursor)) {
+        res.status(400).json({ message: 'Invalid cursor' });
+        return;
+      }
+
+      let prefix: string | undefined;
+      if (value.prefix) {
+        const folderPath = normalizeFolderPath(value.prefix);
+        if (!folderPath) {
+          res.status(400).json({ message: 'Invalid prefix' });
+          return;
+        }
+        prefix = folderPath;
+      }
+
+      const query: FileQuery = {
+        ...value,
+        prefix,
+        tags: value.tags ? value.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean) : undefined,
+        modifiedAfter: value.modifiedAfter?.toISOString(),
+        modifiedBefore: value.modifiedBefore?.toISOString()
+      };
+
+      const result = await this.blobStorageService.queryFilesAsync(query, req.userContext);
+      res.json({
+        ...result,
+        items: await this.signOffService.applySignOffsAsync(result.items)
+      });
+    } catch (error) {
+      console.error('Error querying files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  searchFiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        q: Joi.string().min(1).max(200).optional(),
+        tags: Joi.string().min(1).max(1000).optional(),
+        limit: Joi.number().integer().min(1).max(500).default(100)
+      }).or('q', 'tags');
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      let tagExpression: TagExpression | undefined;
+      if (value.tags) {
+        try {
+          tagExpression = parseTagExpression(value.tags);
+        } catch (parseError) {
+          if (parseError instanceof TagExpressionError) {
+            res.status(400).json({ message: parseError.message });
+            return;
+          }
+          throw parseError;
+        }
+      }
+
+      // Without text to match, a tag expression alone returns plain file metadata
+      if (!value.q && tagExpression) {
+        const files = await this.blobStorageService.searchByTagsAsync(tagExpression, req.userContext, value.limit);
+        res.json(await this.signOffService.applySignOffsAsync(files));
+        return;
+      }
+
+      const results = await this.blobStorageService.searchContentAsync(
+        value.q,
+        req.userContext,
+        value.limit,
+        tagExpression
+      );
+      const files = await this.signOffService.applySignOffsAsync(results.map(result => result.file));
+
+      res.json(results.map((result, index) => ({ ...result, file: files[index] })));
+    } catch (error) {
+      console.error('Error searching files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   fileExists = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -159,7 +647,14 @@ export class BlobStorageController {
       }
 
       const metadata = await this.blobStorageService.getFileMetadataAsync(fileName, req.userContext);
-      res.json(metadata);
+
+      if (!metadata) {
+        res.status(404).json({ message: `File '${fileName}' not found` });
+        return;
+      }
+
+      const [withSignOffs] = await this.signOffService.applySignOffsAsync([metadata]);
+      res.json(withSignOffs);
     } catch (error) {
       console.error('Error getting file metadata:', error);
       res.status(500).json({ message: 'Internal server error' });
@@ -213,6 +708,13 @@ export class BlobStorageController {
       }
 
       const request: TagsUpdateRequest = value;
+
+      const invalidTags = await this.tagsService.findInvalidTagsAsync(request.tags);
+      if (invalidTags.length > 0) {
+        res.status(400).json({ message: 'Tags are not in the tag vocabulary', invalidTags });
+        return;
+      }
+
       const success = await this.blobStorageService.setFileTagsAsync(
         fileName,
         request.tags,
@@ -225,6 +727,11 @@ export class BlobStorageController {
         res.status(500).json({ message: 'Failed to update tags' });
       }
     } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
       console.error('Error setting file tags:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
@@ -252,11 +759,73 @@ export class BlobStorageController {
         res.status(500).json({ message: 'Failed to remove tags' });
       }
     } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
       console.error('Error removing file tags:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   };
 
+  setFilesTags = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        files: Joi.array().items(Joi.string()).min(1).max(MAX_BULK_FILES).required(),
+        tags: Joi.array().items(Joi.string()).required(),
+        mode: Joi.string().valid(...Object.values(BulkTagMode)).default(BulkTagMode.Replace)
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: BulkTagsRequest = value;
+
+      // Removing a tag that has since left the vocabulary must stay possible
+      if (request.mode !== BulkTagMode.Remove) {
+        const invalidTags = await this.tagsService.findInvalidTagsAsync(request.tags);
+        if (invalidTags.length > 0) {
+          res.status(400).json({ message: 'Tags are not in the tag vocabulary', invalidTags });
+          return;
+        }
+      }
+
+      const userContext = req.userContext;
+      const result = await runBulkAsync(request.files, async fileName => {
+        if (!(await this.blobStorageService.fileExistsAsync(fileName, userContext))) {
+          return { status: 404, message: `File '${fileName}' not found` };
+        }
+
+        let tags = request.tags;
+        if (request.mode !== BulkTagMode.Replace) {
+          const current = await this.blobStorageService.getFileTagsAsync(fileName, userContext);
+          tags = request.mode === BulkTagMode.Add
+            ? [...new Set([...current, ...request.tags])]
+            : current.filter(tag => !request.tags.includes(tag));
+        }
+
+        return await this.blobStorageService.setFileTagsAsync(fileName, tags, userContext)
+          ? { status: 200 }
+          : { status: 500, message: 'Failed to update tags' };
+      });
+
+      res.locals.auditObjects = result.results.filter(item => item.success).map(item => item.fileName);
+      res.json(result);
+    } catch (error) {
+      console.error('Error setting tags on files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   getFileVersions = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -299,7 +868,7 @@ export class BlobStorageController {
         req.userContext
       );
 
-      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('Content-Disposition', `attachment; filename="${path.posix.basename(fileName)}"`);
       res.setHeader('Content-Type', 'application/octet-stream');
       
       fileStream.pipe(res);
@@ -309,6 +878,118 @@ export class BlobStorageController {
     }
   };
 
+  restoreFileVersion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        versionId: Joi.string().required(),
+        comment: Joi.string().max(MAX_VERSION_COMMENT_LENGTH).optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const { fileName } = req.params;
+      const request: RestoreVersionRequest = value;
+
+      const restored = await this.blobStorageService.restoreFileVersionAsync(
+        fileName,
+        request.versionId,
+        req.userContext,
+        request.comment
+      );
+
+      if (!restored) {
+        res.status(404).json({ message: `Version '${request.versionId}' of file '${fileName}' not found` });
+        return;
+      }
+
+      // Sign-offs recorded against the content that was just replaced no longer apply
+      await this.signOffService.invalidateStaleSignOffsAsync(fileName);
+
+      res.json({
+        fileName,
+        versionId: restored.versionId,
+        restoredFromVersionId: request.versionId,
+        message: `File '${fileName}' restored to version '${request.versionId}'`
+      });
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error restoring file version:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  diffFileVersions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        from: Joi.string().required(),
+        to: Joi.string().optional(),
+        context: Joi.number().integer().min(0).max(100).default(3),
+        format: Joi.string().valid('json', 'unified').default('json')
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const { fileName } = req.params;
+
+      // Without `to`, the old version is compared with the current one
+      const from = await this.blobStorageService.getFileVersionTextAsync(fileName, value.from, req.userContext);
+      const to = await this.blobStorageService.getFileVersionTextAsync(fileName, value.to, req.userContext);
+
+      if (!from || !to) {
+        res.status(404).json({ message: `Version '${!from ? value.from : value.to || 'latest'}' of file '${fileName}' not found` });
+        return;
+      }
+
+      const hunks = diffLines(from.text, to.text, value.context);
+
+      if (value.format === 'unified') {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.send(formatUnifiedDiff(hunks, `${fileName}@${from.versionId}`, `${fileName}@${to.versionId}`));
+        return;
+      }
+
+      const changes = hunks.flatMap(hunk => hunk.lines);
+      res.json({
+        fileName,
+        fromVersionId: from.versionId,
+        toVersionId: to.versionId,
+        added: changes.filter(line => line.type === 'added').length,
+        removed: changes.filter(line => line.type === 'removed').length,
+        hunks
+      });
+    } catch (error) {
+      if (error instanceof DiffError) {
+        res.status(422).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error comparing file versions:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   getFileBase64 = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext) {
@@ -330,4 +1011,250 @@ export class BlobStorageController {
       res.status(500).json({ message: 'Internal server error' });
     }
   };
+
+  createFolder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        path: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const folderPath = normalizeFolderPath(value.path);
+      if (!folderPath) {
+        res.status(400).json({ message: 'Invalid folder path' });
+        return;
+      }
+
+      if (await this.blobStorageService.folderExistsAsync(folderPath, req.userContext)) {
+        res.status(409).json({ message: `Folder '${folderPath}' already exists` });
+        return;
+      }
+
+      await this.blobStorageService.createFolderAsync(folderPath, req.userContext);
+      res.status(201).json({ path: folderPath, message: 'Folder created successfully' });
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error creating folder:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  moveFolder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        source: Joi.string().required(),
+        destination: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const source = normalizeFolderPath(value.source);
+      const destination = normalizeFolderPath(value.destination);
+      if (!source || !destination) {
+        res.status(400).json({ message: 'Invalid folder path' });
+        return;
+      }
+
+      if (destination.startsWith(source)) {
+        res.status(400).json({ message: 'A folder cannot be moved into itself' });
+        return;
+      }
+
+      if (!(await this.blobStorageService.folderExistsAsync(source, req.userContext))) {
+        res.status(404).json({ message: `Folder '${source}' not found` });
+        return;
+      }
+
+      if (await this.blobStorageService.folderExistsAsync(destination, req.userContext)) {
+        res.status(409).json({ message: `Folder '${destination}' already exists` });
+        return;
+      }
+
+      const moved = await this.blobStorageService.moveFolderAsync(source, destination, req.userContext);
+      res.json({ source, destination, moved, message: 'Folder moved successfully' });
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error moving folder:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  deleteFolder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const folderPath = normalizeFolderPath(req.params.folderPath);
+      if (!folderPath) {
+        res.status(400).json({ message: 'Invalid folder path' });
+        return;
+      }
+
+      if (!(await this.blobStorageService.folderExistsAsync(folderPath, req.userContext))) {
+        res.status(404).json({ message: `Folder '${folderPath}' not found` });
+        return;
+      }
+
+      const deleted = await this.blobStorageService.deleteFolderAsync(folderPath, req.userContext);
+      res.json({ path: folderPath, deleted, message: `Folder '${folderPath}' moved to the recycle bin` });
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error deleting folder:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  listDeletedFiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        prefix: Joi.string().allow('').optional(),
+        deletedBy: Joi.string().optional()
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const query: DeletedFileQuery = value;
+      if (query.prefix) {
+        const folderPath = normalizeFolderPath(query.prefix);
+        if (!folderPath) {
+          res.status(400).json({ message: 'Invalid prefix' });
+          return;
+        }
+        query.prefix = folderPath;
+      }
+
+      const files = await this.blobStorageService.listDeletedFilesAsync(req.userContext, query);
+      res.json(files);
+    } catch (error) {
+      console.error('Error listing deleted files:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  restoreDeletedFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const file = await this.blobStorageService.getDeletedFileAsync(req.params.id, req.userContext);
+
+      if (!file) {
+        res.status(404).json({ message: 'Deleted file not found' });
+        return;
+      }
+
+      res.locals.auditObject = file.fileName;
+
+      await this.blobStorageService.restoreDeletedFileAsync(file, req.userContext);
+      res.json({ fileName: file.fileName, message: `File '${file.fileName}' restored` });
+    } catch (error) {
+      if (error instanceof RecycleBinError) {
+        res.status(409).json({ message: error.message });
+        return;
+      }
+
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error restoring deleted file:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  purgeDeletedFile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      // Purging can't be undone, so it is reserved for admins
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const file = await this.blobStorageService.getDeletedFileAsync(req.params.id, req.userContext);
+
+      if (!file) {
+        res.status(404).json({ message: 'Deleted file not found' });
+        return;
+      }
+
+      res.locals.auditObject = file.fileName;
+
+      await this.blobStorageService.purgeDeletedFileAsync(file);
+      res.json({ message: `File '${file.fileName}' permanently deleted` });
+    } catch (error) {
+      console.error('Error purging deleted file:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  private parseListingQuery(req: Request, res: Response): { prefix: string; recursive: boolean } | null {
+    const schema = Joi.object({
+      prefix: Joi.string().allow('').optional(),
+      delimiter: Joi.string().valid('/').optional()
+    });
+
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      res.status(400).json({ message: error.details[0].message });
+      return null;
+    }
+
+    let prefix = '';
+    if (value.prefix) {
+      const folderPath = normalizeFolderPath(value.prefix);
+      if (!folderPath) {
+        res.status(400).json({ message: 'Invalid prefix' });
+        return null;
+      }
+      prefix = folderPath;
+    }
+
+    // A delimiter limits the listing to the immediate children of the prefix
+    return { prefix, recursive: !value.delimiter };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { OidcService, OidcError } from '../services';
+import { generateRandomToken } from '../utils';
+import Joi from 'joi';
+
+const BROWSER_KEY_COOKIE = 'oidc_browser_key';
+// Matches how long the service keeps a pending login
+const BROWSER_KEY_MAX_AGE_MS = 10 * 60 * 1000;
+
+export class OidcController {
+  private oidcService: OidcService;
+
+  constructor(oidcService: OidcService) {
+    this.oidcService = oidcService;
+  }
+
+  get callbackPath(): string {
+    return this.oidcService.getCallbackPath();
+  }
+
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.oidcService.isEnabled()) {
+        res.status(404).json({ message: 'OIDC authentication is not enabled' });
+        return;
+      }
+
+      const browserKey = generateRandomToken();
+      const authorizationUrl = await this.oidcService.createAuthorizationUrlAsync(browserKey);
+
+      // Lax still sends the cookie on the provider's top-level redirect back to the callback
+      res.cookie(BROWSER_KEY_COOKIE, browserKey, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        path: this.oidcService.getCallbackPath(),
+        maxAge: BROWSER_KEY_MAX_AGE_MS
+      });
+
+      res.redirect(authorizationUrl);
+    } catch (error) {
+      console.error('Error starting OIDC login:', error);
+      res.status(502).json({ message: 'Identity provider is unavailable' });
+    }
+  };
+
+  callback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.oidcService.isEnabled()) {
+        res.status(404).json({ message: 'OIDC authentication is not enabled' });
+        return;
+      }
+
+      if (typeof req.query.error === 'string') {
+        res.status(401).json({ message: `Identity provider returned an error: ${req.query.error_description || req.query.error}` });
+        return;
+      }
+
+      // Providers may append extra parameters such as session_state or iss
+      const schema = Joi.object({
+        code: Joi.string().required(),
+        state: Joi.string().required()
+      }).unknown(true);
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const browserKey = this.getCookie(req, BROWSER_KEY_COOKIE);
+      res.clearCookie(BROWSER_KEY_COOKIE, { path: this.oidcService.getCallbackPath() });
+
+      const authResponse = await this.oidcService.completeLoginAsync(value.code, value.state, browserKey);
+      res.locals.auditActor = authResponse?.user.username;
+
+      if (!authResponse) {
+        res.status(403).json({ message: 'Account is disabled or conflicts with an existing user' });
+        return;
+      }
+
+      const postLoginRedirectUri = this.oidcService.getPostLoginRedirectUri();
+
+      if (postLoginRedirectUri) {
+        // The fragment keeps the token out of server logs and Referer headers
+        const fragment = new URLSearchParams({
+          token: authResponse.token,
+          expiresAt: authResponse.expiresAt,
+          refreshToken: authResponse.refreshToken
+        });
+        res.redirect(`${postLoginRedirectUri}#${fragment.toString()}`);
+        return;
+      }
+
+      res.json(authResponse);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        res.status(401).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error completing OIDC login:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  private getCookie(req: Request, name: string): string | undefined {
+    for (const pair of (req.headers.cookie || '').split(';')) {
+      const separator = pair.indexOf('=');
+      if (separator > 0 && pair.slice(0, separator).trim() === name) {
+        return pair.slice(separator + 1).trim();
+      }
+    }
+
+    return undefined;
+  }
+}
\ No newline at end of file
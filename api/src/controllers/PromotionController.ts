@@ -0,0 +1,258 @@
+import { Request, Response } from 'express';
+import { PromotionService, AccessDeniedError, ContentChangedError, runBulkAsync } from '../services';
+import { UserRole, PromotionStatus, CreatePromotionRequest, ReviewPromotionRequest, BulkPromotionRequest } from '../models';
+import Joi from 'joi';
+
+export class PromotionController {
+  private promotionService: PromotionService;
+
+  constructor(promotionService: PromotionService) {
+    this.promotionService = promotionService;
+  }
+
+  submitPromotion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        fileName: Joi.string().required(),
+        releaseNote: Joi.string().min(1).max(2000).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: CreatePromotionRequest = value;
+
+      const pending = await this.promotionService.getPendingRequestForFileAsync(request.fileName);
+      if (pending) {
+        res.status(409).json({ message: `File '${request.fileName}' already has a pending promotion request`, id: pending.id });
+        return;
+      }
+
+      const promotion = await this.promotionService.submitAsync(request, req.userContext);
+
+      if (!promotion) {
+        res.status(404).json({ message: `File '${request.fileName}' not found in working storage` });
+        return;
+      }
+
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error submitting promotion request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  submitPromotions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        files: Joi.array().items(Joi.string()).min(1).max(1000).required(),
+        releaseNote: Joi.string().min(1).max(2000).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: BulkPromotionRequest = value;
+      const userContext = req.userContext;
+
+      // Each file gets its own request with the shared release note, reviewed like any other
+      const result = await runBulkAsync(request.files, async fileName => {
+        const pending = await this.promotionService.getPendingRequestForFileAsync(fileName);
+        if (pending) {
+          return { status: 409, message: `File '${fileName}' already has a pending promotion request`, promotionId: pending.id };
+        }
+
+        const promotion = await this.promotionService.submitAsync({ fileName, releaseNote: request.releaseNote }, userContext);
+
+        return promotion
+          ? { status: 201, promotionId: promotion.id }
+          : { status: 404, message: `File '${fileName}' not found in working storage` };
+      });
+
+      res.locals.auditObjects = result.results.filter(item => item.success).map(item => item.fileName);
+      res.json(result);
+    } catch (error) {
+      console.error('Error submitting promotion requests:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getPromotions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        status: Joi.string().valid(...Object.values(PromotionStatus)).optional()
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const promotions = await this.promotionService.getRequestsAsync(req.userContext, value.status);
+      res.json(promotions);
+    } catch (error) {
+      console.error('Error getting promotion requests:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getPromotionById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const promotionId = parseInt(req.params.id, 10);
+
+      if (isNaN(promotionId)) {
+        res.status(400).json({ message: 'Invalid promotion request ID' });
+        return;
+      }
+
+      const promotion = await this.promotionService.getRequestByIdAsync(promotionId);
+
+      if (!promotion || (req.userContext.role < UserRole.Admin && promotion.requestedBy !== req.userContext.username)) {
+        res.status(404).json({ message: 'Promotion request not found' });
+        return;
+      }
+
+      res.json(promotion);
+    } catch (error) {
+      console.error('Error getting promotion request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  approvePromotion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const promotionId = parseInt(req.params.id, 10);
+
+      if (isNaN(promotionId)) {
+        res.status(400).json({ message: 'Invalid promotion request ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        comment: Joi.string().max(2000).allow('').optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const review: ReviewPromotionRequest = value;
+
+      const promotion = await this.promotionService.getRequestByIdAsync(promotionId);
+      if (!promotion) {
+        res.status(404).json({ message: 'Promotion request not found' });
+        return;
+      }
+
+      if (promotion.status !== PromotionStatus.Pending) {
+        res.status(409).json({ message: `Promotion request is already ${promotion.status.toLowerCase()}` });
+        return;
+      }
+
+      const approved = await this.promotionService.approveAsync(promotion, req.userContext, review.comment);
+
+      if (approved) {
+        res.json(approved);
+      } else {
+        res.status(409).json({ message: 'Promotion request was reviewed concurrently' });
+      }
+    } catch (error) {
+      if (error instanceof ContentChangedError) {
+        res.status(409).json({ message: `${error.message}; reject the request and submit the current version again` });
+        return;
+      }
+
+      console.error('Error approving promotion request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  rejectPromotion = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const promotionId = parseInt(req.params.id, 10);
+
+      if (isNaN(promotionId)) {
+        res.status(400).json({ message: 'Invalid promotion request ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        comment: Joi.string().min(1).max(2000).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const review: ReviewPromotionRequest = value;
+
+      const promotion = await this.promotionService.getRequestByIdAsync(promotionId);
+      if (!promotion) {
+        res.status(404).json({ message: 'Promotion request not found' });
+        return;
+      }
+
+      if (promotion.status !== PromotionStatus.Pending) {
+        res.status(409).json({ message: `Promotion request is already ${promotion.status.toLowerCase()}` });
+        return;
+      }
+
+      const rejected = await this.promotionService.rejectAsync(promotion, req.userContext, review.comment as string);
+
+      if (rejected) {
+        res.json(rejected);
+      } else {
+        res.status(409).json({ message: 'Promotion request was reviewed concurrently' });
+      }
+    } catch (error) {
+      console.error('Error rejecting promotion request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
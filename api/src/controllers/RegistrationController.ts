@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { RegistrationService } from '../services';
+import { SignUpRequest, ConfirmEmailRequest, ResendConfirmationRequest } from '../models';
+import Joi from 'joi';
+
+export class RegistrationController {
+  private registrationService: RegistrationService;
+
+  constructor(registrationService: RegistrationService) {
+    this.registrationService = registrationService;
+  }
+
+  signUp = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.registrationService.isEnabled) {
+        res.status(403).json({ message: 'User registration is disabled' });
+        return;
+      }
+
+      const schema = Joi.object({
+        username: Joi.string().alphanum().min(3).max(30).required(),
+        email: Joi.string().email().required(),
+        password: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: SignUpRequest = value;
+
+      const policyError = this.registrationService.checkPasswordPolicy(request.password, request.username);
+      if (policyError) {
+        res.status(400).json({ message: policyError });
+        return;
+      }
+
+      const result = await this.registrationService.signUpAsync(request);
+
+      if (!result) {
+        res.status(409).json({ message: 'Username or email already exists' });
+        return;
+      }
+
+      if (result.confirmationRequired) {
+        res.status(202).json({
+          message: 'Account created. Check your email to confirm your address before signing in',
+          confirmationRequired: true
+        });
+        return;
+      }
+
+      res.status(201).json(result.auth);
+    } catch (error) {
+      console.error('Error during sign-up:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  confirmEmail = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schema = Joi.object({
+        token: Joi.string().required()
+      });
+
+      const { error, value } = schema.validate(req.query);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: ConfirmEmailRequest = value;
+      const confirmed = await this.registrationService.confirmEmailAsync(request.token);
+
+      if (!confirmed) {
+        res.status(400).json({ message: 'Invalid or expired confirmation token' });
+        return;
+      }
+
+      res.json({ message: 'Email confirmed. You can now sign in' });
+    } catch (error) {
+      console.error('Error confirming email:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  resendConfirmation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.registrationService.isEnabled) {
+        res.status(403).json({ message: 'User registration is disabled' });
+        return;
+      }
+
+      const schema = Joi.object({
+        email: Joi.string().email().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: ResendConfirmationRequest = value;
+      await this.registrationService.resendConfirmationAsync(request.email);
+
+      // Same answer whether or not the address belongs to a pending account
+      res.status(202).json({ message: 'If the address belongs to an unconfirmed account, a new confirmation email has been sent' });
+    } catch (error) {
+      console.error('Error resending confirmation email:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
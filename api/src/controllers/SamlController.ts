@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { SamlService, SamlError } from '../services';
+import Joi from 'joi';
+
+export class SamlController {
+  private samlService: SamlService;
+
+  constructor(samlService: SamlService) {
+    this.samlService = samlService;
+  }
+
+  get callbackPath(): string {
+    return this.samlService.getCallbackPath();
+  }
+
+  getMetadata = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.samlService.isEnabled()) {
+        res.status(404).json({ message: 'SAML authentication is not enabled' });
+        return;
+      }
+
+      res.type('application/samlmetadata+xml').send(this.samlService.getServiceProviderMetadata());
+    } catch (error) {
+      console.error('Error generating SAML metadata:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.samlService.isEnabled()) {
+        res.status(404).json({ message: 'SAML authentication is not enabled' });
+        return;
+      }
+
+      const loginUrl = await this.samlService.createLoginUrlAsync();
+      res.redirect(loginUrl);
+    } catch (error) {
+      console.error('Error starting SAML login:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  callback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!this.samlService.isEnabled()) {
+        res.status(404).json({ message: 'SAML authentication is not enabled' });
+        return;
+      }
+
+      const schema = Joi.object({
+        SAMLResponse: Joi.string().required(),
+        RelayState: Joi.string().allow('').optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const authResponse = await this.samlService.completeLoginAsync(value.SAMLResponse);
+      res.locals.auditActor = authResponse?.user.username;
+
+      if (!authResponse) {
+        res.status(403).json({ message: 'Account is disabled or conflicts with an existing user' });
+        return;
+      }
+
+      const postLoginRedirectUri = this.samlService.getPostLoginRedirectUri();
+
+      if (postLoginRedirectUri) {
+        const fragment = new URLSearchParams({
+          token: authResponse.token,
+          expiresAt: authResponse.expiresAt,
+          refreshToken: authResponse.refreshToken
+        });
+        res.redirect(303, `${postLoginRedirectUri}#${fragment.toString()}`);
+        return;
+      }
+
+      res.json(authResponse);
+    } catch (error) {
+      if (error instanceof SamlError) {
+        res.status(401).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error completing SAML login:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { SignOffService } from '../services';
+import { UserRole, SignOffType, CreateSignOffRequest } from '../models';
+import Joi from 'joi';
+
+export class SignOffController {
+  private signOffService: SignOffService;
+
+  constructor(signOffService: SignOffService) {
+    this.signOffService = signOffService;
+  }
+
+  getSignOffs = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const { fileName } = req.params;
+      const signOffs = await this.signOffService.getSignOffsAsync(fileName, req.userContext);
+
+      if (!signOffs) {
+        res.status(404).json({ message: `File '${fileName}' not found` });
+        return;
+      }
+
+      res.json({ fileName, signOffs });
+    } catch (error) {
+      console.error('Error getting sign-offs:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createSignOff = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const { fileName } = req.params;
+
+      const schema = Joi.object({
+        type: Joi.string().valid(...Object.values(SignOffType)).required(),
+        comment: Joi.string().min(1).max(2000).required(),
+        versionId: Joi.string().optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: CreateSignOffRequest = value;
+      const signOff = await this.signOffService.recordSignOffAsync(fileName, request, req.userContext);
+
+      if (!signOff) {
+        const target = request.versionId ? `File '${fileName}' version ${request.versionId}` : `File '${fileName}'`;
+        res.status(404).json({ message: `${target} not found` });
+        return;
+      }
+
+      res.status(201).json(signOff);
+    } catch (error) {
+      console.error('Error recording sign-off:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
@@ -1,6 +1,13 @@
 import { Request, Response } from 'express';
 import { TagsService } from '../services';
-import { UserRole, CreateTagRequest } from '../models';
+import {
+  UserRole,
+  CreateTagRequest,
+  RenameTagRequest,
+  MergeTagRequest,
+  CreateTagCategoryRequest,
+  UpdateTagCategoryRequest
+} from '../models';
 import Joi from 'joi';
 
 export class TagsController {
@@ -25,6 +32,21 @@ export class TagsController {
     }
   };
 
+  getTagUsage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const report = await this.tagsService.getTagUsageAsync();
+      res.json(report);
+    } catch (error) {
+      console.error('Error getting tag usage:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   createTag = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext || req.userContext.role < UserRole.Admin) {
@@ -33,7 +55,8 @@ export class TagsController {
       }
 
       const schema = Joi.object({
-        name: Joi.string().min(1).max(50).required()
+        name: Joi.string().min(1).max(50).pattern(/^[^=]+$/).required()
+          .messages({ 'string.pattern.base': 'Tag name cannot contain "="' })
       });
 
       const { error, value } = schema.validate(req.body);
@@ -85,4 +108,239 @@ export class TagsController {
       res.status(500).json({ message: 'Internal server error' });
     }
   };
+
+  renameTag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const tagId = parseInt(req.params.id, 10);
+
+      if (isNaN(tagId)) {
+        res.status(400).json({ message: 'Invalid tag ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        name: Joi.string().min(1).max(50).pattern(/^[^=]+$/).required()
+          .messages({ 'string.pattern.base': 'Tag name cannot contain "="' })
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: RenameTagRequest = value;
+
+      const tag = await this.tagsService.getTagByIdAsync(tagId);
+      if (!tag) {
+        res.status(404).json({ message: 'Tag not found' });
+        return;
+      }
+
+      const existing = await this.tagsService.getTagByNameAsync(request.name);
+      if (existing) {
+        res.status(409).json({ message: `Tag '${request.name}' already exists, merge the tags instead` });
+        return;
+      }
+
+      const operation = await this.tagsService.renameTagAsync(tag, request.name, req.userContext);
+      res.status(202).json(operation);
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  mergeTag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const tagId = parseInt(req.params.id, 10);
+
+      if (isNaN(tagId)) {
+        res.status(400).json({ message: 'Invalid tag ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        targetId: Joi.number().integer().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: MergeTagRequest = value;
+
+      if (request.targetId === tagId) {
+        res.status(400).json({ message: 'A tag cannot be merged into itself' });
+        return;
+      }
+
+      const source = await this.tagsService.getTagByIdAsync(tagId);
+      const target = await this.tagsService.getTagByIdAsync(request.targetId);
+      if (!source || !target) {
+        res.status(404).json({ message: 'Tag not found' });
+        return;
+      }
+
+      const operation = await this.tagsService.mergeTagAsync(source, target, req.userContext);
+      res.status(202).json(operation);
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getOperation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const operation = this.tagsService.getOperation(req.params.operationId);
+
+      if (!operation) {
+        res.status(404).json({ message: 'Tag operation not found' });
+        return;
+      }
+
+      res.json(operation);
+    } catch (error) {
+      console.error('Error getting tag operation:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getAllCategories = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const categories = await this.tagsService.getAllCategoriesAsync();
+      res.json({ enforceVocabulary: this.tagsService.isVocabularyEnforced(), categories });
+    } catch (error) {
+      console.error('Error getting tag categories:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        name: Joi.string().min(1).max(50).pattern(/^[^=]+$/).required()
+          .messages({ 'string.pattern.base': 'Category name cannot contain "="' }),
+        allowedValues: Joi.array().items(Joi.string().min(1).max(100)).unique().default([])
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: CreateTagCategoryRequest = value;
+      const category = await this.tagsService.createCategoryAsync(request);
+      
+      res.status(201).json(category);
+    } catch (error) {
+      console.error('Error creating tag category:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  updateCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const categoryId = parseInt(req.params.id, 10);
+
+      if (isNaN(categoryId)) {
+        res.status(400).json({ message: 'Invalid category ID' });
+        return;
+      }
+
+      const schema = Joi.object({
+        allowedValues: Joi.array().items(Joi.string().min(1).max(100)).unique().required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const category = await this.tagsService.getCategoryByIdAsync(categoryId);
+      if (!category) {
+        res.status(404).json({ message: 'Tag category not found' });
+        return;
+      }
+
+      const request: UpdateTagCategoryRequest = value;
+      const updated = await this.tagsService.updateCategoryAsync(categoryId, request);
+
+      if (updated) {
+        res.json({ ...category, allowedValues: request.allowedValues });
+      } else {
+        res.status(500).json({ message: 'Failed to update tag category' });
+      }
+    } catch (error) {
+      console.error('Error updating tag category:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  deleteCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const categoryId = parseInt(req.params.id, 10);
+
+      if (isNaN(categoryId)) {
+        res.status(400).json({ message: 'Invalid category ID' });
+        return;
+      }
+
+      const category = await this.tagsService.getCategoryByIdAsync(categoryId);
+      if (!category) {
+        res.status(404).json({ message: 'Tag category not found' });
+        return;
+      }
+
+      const deleted = await this.tagsService.deleteCategoryAsync(categoryId);
+
+      if (deleted) {
+        res.json({ message: 'Tag category deleted successfully' });
+      } else {
+        res.status(500).json({ message: 'Failed to delete tag category' });
+      }
+    } catch (error) {
+      console.error('Error deleting tag category:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
 }
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import { TwoFactorService } from '../services';
+import { UserRole, TwoFactorCodeRequest, DisableTwoFactorRequest } from '../models';
+import Joi from 'joi';
+
+export class TwoFactorController {
+  private twoFactorService: TwoFactorService;
+
+  constructor(twoFactorService: TwoFactorService) {
+    this.twoFactorService = twoFactorService;
+  }
+
+  getStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const status = await this.twoFactorService.getStatusAsync(req.userContext.userId);
+
+      if (!status) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      res.json(status);
+    } catch (error) {
+      console.error('Error getting two-factor status:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  beginSetup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const setup = await this.twoFactorService.beginSetupAsync(req.userContext.userId, req.userContext.username);
+
+      if (!setup) {
+        res.status(409).json({ message: 'Two-factor authentication is already enabled' });
+        return;
+      }
+
+      // The client renders provisioningUri as a QR code for the authenticator app
+      res.status(201).json(setup);
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  enable = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        code: Joi.string().max(32).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: TwoFactorCodeRequest = value;
+      const recoveryCodes = await this.twoFactorService.enableAsync(req.userContext.userId, request.code);
+
+      if (!recoveryCodes) {
+        res.status(400).json({ message: 'Invalid code, or no two-factor setup is in progress' });
+        return;
+      }
+
+      // Recovery codes are only ever shown here; the server keeps just their hashes
+      res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+    } catch (error) {
+      console.error('Error enabling two-factor authentication:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const schema = Joi.object({
+        code: Joi.string().max(32).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: TwoFactorCodeRequest = value;
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodesAsync(req.userContext.userId, request.code);
+
+      if (!recoveryCodes) {
+        res.status(400).json({ message: 'Invalid two-factor code' });
+        return;
+      }
+
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  disable = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const status = await this.twoFactorService.getStatusAsync(req.userContext.userId);
+      if (status?.required) {
+        res.status(403).json({ message: 'Two-factor authentication is required for your role' });
+        return;
+      }
+
+      const schema = Joi.object({
+        password: Joi.string().required(),
+        code: Joi.string().max(32).required()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request: DisableTwoFactorRequest = value;
+      const disabled = await this.twoFactorService.disableAsync(req.userContext.userId, request.password, request.code);
+
+      if (!disabled) {
+        res.status(400).json({ message: 'Invalid password or two-factor code' });
+        return;
+      }
+
+      res.json({ message: 'Two-factor authentication disabled' });
+    } catch (error) {
+      console.error('Error disabling two-factor authentication:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  resetUserTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const { userId } = req.params;
+      const reset = await this.twoFactorService.resetAsync(userId);
+
+      if (!reset) {
+        res.status(404).json({ message: 'Two-factor authentication is not set up for this user' });
+        return;
+      }
+
+      res.json({ message: 'Two-factor authentication reset successfully' });
+    } catch (error) {
+      console.error('Error resetting two-factor authentication:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
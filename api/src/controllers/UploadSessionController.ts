@@ -0,0 +1,260 @@
+import { Request, Response } from 'express';
+import {
+  UploadSessionService,
+  SignOffService,
+  TagsService,
+  AccessDeniedError,
+  UploadSessionError,
+  MAX_UPLOAD_PART_SIZE,
+  MAX_UPLOAD_PARTS
+} from '../services';
+import { UserRole, CreateUploadSessionRequest } from '../models';
+import { readRequestBodyAsync, UploadError } from '../middleware';
+import { normalizeFolderPath } from '../utils';
+import Joi from 'joi';
+
+export class UploadSessionController {
+  private uploadSessionService: UploadSessionService;
+  private signOffService: SignOffService;
+  private tagsService: TagsService;
+  private maxUploadBytes: Record<UserRole, number>;
+
+  constructor(
+    uploadSessionService: UploadSessionService,
+    signOffService: SignOffService,
+    tagsService: TagsService,
+    maxUploadBytes: Record<UserRole, number>
+  ) {
+    this.uploadSessionService = uploadSessionService;
+    this.signOffService = signOffService;
+    this.tagsService = tagsService;
+    this.maxUploadBytes = maxUploadBytes;
+  }
+
+  createSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const schema = Joi.object({
+        fileName: Joi.string().max(255).pattern(/^[^/]+$/).invalid('.', '..').required(),
+        folder: Joi.string().allow('').optional(),
+        contentType: Joi.string().max(255).optional(),
+        size: Joi.number().integer().min(0).optional(),
+        tags: Joi.array().items(Joi.string()).optional(),
+        metadata: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+        comment: Joi.string().max(500).optional()
+      });
+
+      const { error, value } = schema.validate(req.body);
+      if (error) {
+        res.status(400).json({ message: error.details[0].message });
+        return;
+      }
+
+      const request = value as CreateUploadSessionRequest;
+      const maxFileSizeBytes = this.maxUploadBytes[req.userContext.role] || 0;
+
+      if (request.size !== undefined && request.size > maxFileSizeBytes) {
+        res.status(413).json({ message: 'File exceeds the upload limit', maxFileSizeBytes });
+        return;
+      }
+
+      const invalidTags = await this.tagsService.findInvalidTagsAsync(request.tags || []);
+      if (invalidTags.length > 0) {
+        res.status(400).json({ message: 'Tags are not in the tag vocabulary', invalidTags });
+        return;
+      }
+
+      let folderPath = '';
+      if (request.folder) {
+        const normalized = normalizeFolderPath(request.folder);
+        if (!normalized) {
+          res.status(400).json({ message: 'Invalid folder path' });
+          return;
+        }
+        folderPath = normalized;
+      }
+
+      res.locals.auditObject = folderPath + request.fileName;
+
+      const session = await this.uploadSessionService.createAsync(folderPath + request.fileName, request, req.userContext);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error creating upload session:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const sessions = await this.uploadSessionService.getForUserAsync(req.userContext);
+      res.json(sessions);
+    } catch (error) {
+      console.error('Error getting upload sessions:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const session = await this.uploadSessionService.getAsync(req.params.id, req.userContext);
+
+      if (!session) {
+        res.status(404).json({ message: 'Upload session not found' });
+        return;
+      }
+
+      res.json(session);
+    } catch (error) {
+      console.error('Error getting upload session:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  uploadPart = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const partNumber = Number(req.params.partNumber);
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_UPLOAD_PARTS) {
+        res.status(400).json({ message: `Part number must be between 1 and ${MAX_UPLOAD_PARTS}` });
+        return;
+      }
+
+      const session = await this.uploadSessionService.getAsync(req.params.id, req.userContext);
+
+      if (!session) {
+        res.status(404).json({ message: 'Upload session not found' });
+        return;
+      }
+
+      const contentLength = parseInt(req.headers['content-length'] || '', 10);
+      if (contentLength > MAX_UPLOAD_PART_SIZE) {
+        res.status(413).json({ message: 'Part exceeds the part size limit', maxBytes: MAX_UPLOAD_PART_SIZE });
+        return;
+      }
+
+      const payload = await readRequestBodyAsync(req, MAX_UPLOAD_PART_SIZE);
+
+      if (payload.length === 0) {
+        res.status(400).json({ message: 'Part is empty' });
+        return;
+      }
+
+      // A re-sent part replaces the earlier one, so it doesn't count twice
+      const maxFileSizeBytes = this.maxUploadBytes[req.userContext.role] || 0;
+      const otherPartsSize = session.parts
+        .filter(part => part.partNumber !== partNumber)
+        .reduce((total, part) => total + part.size, 0);
+
+      if (otherPartsSize + payload.length > maxFileSizeBytes) {
+        res.status(413).json({ message: 'File exceeds the upload limit', maxFileSizeBytes });
+        return;
+      }
+
+      const part = await this.uploadSessionService.uploadPartAsync(session, partNumber, payload);
+      res.json(part);
+    } catch (error) {
+      if (error instanceof UploadError) {
+        res.status(error.statusCode).json({ message: error.message, ...error.details });
+        return;
+      }
+
+      console.error('Error uploading part:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  completeSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Contributor) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const session = await this.uploadSessionService.getAsync(req.params.id, req.userContext);
+
+      if (!session) {
+        res.status(404).json({ message: 'Upload session not found' });
+        return;
+      }
+
+      res.locals.auditObject = session.fileName;
+
+      // Parts sent in parallel are each checked against a stale total, so the limit is enforced again here
+      const maxFileSizeBytes = this.maxUploadBytes[req.userContext.role] || 0;
+      const totalSize = session.parts.reduce((total, part) => total + part.size, 0);
+
+      if (totalSize > maxFileSizeBytes) {
+        await this.uploadSessionService.abortAsync(session);
+        res.status(413).json({ message: 'File exceeds the upload limit', maxFileSizeBytes });
+        return;
+      }
+
+      const result = await this.uploadSessionService.completeAsync(session, req.userContext);
+
+      // Sign-offs recorded against the content that was just replaced no longer apply
+      await this.signOffService.invalidateStaleSignOffsAsync(result.fileName);
+
+      res.json({ ...result, message: 'File uploaded successfully' });
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+
+      if (error instanceof AccessDeniedError) {
+        res.status(403).json({ message: error.message });
+        return;
+      }
+
+      console.error('Error completing upload session:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  abortSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const session = await this.uploadSessionService.getAsync(req.params.id, req.userContext);
+
+      if (!session) {
+        res.status(404).json({ message: 'Upload session not found' });
+        return;
+      }
+
+      res.locals.auditObject = session.fileName;
+
+      await this.uploadSessionService.abortAsync(session);
+      res.json({ message: 'Upload session aborted' });
+    } catch (error) {
+      console.error('Error aborting upload session:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
\ No newline at end of file
@@ -1,13 +1,17 @@
 import { Request, Response } from 'express';
-import { UserService } from '../services';
+import { UserService, SessionService, LoginThrottleService } from '../services';
 import { UserRole, UpdateUserRequest } from '../models';
 import Joi from 'joi';
 
 export class UserController {
   private userService: UserService;
+  private sessionService: SessionService;
+  private loginThrottleService: LoginThrottleService;
 
-  constructor(userService: UserService) {
+  constructor(userService: UserService, sessionService: SessionService, loginThrottleService: LoginThrottleService) {
     this.userService = userService;
+    this.sessionService = sessionService;
+    this.loginThrottleService = loginThrottleService;
   }
 
   getAllUsers = async (req: Request, res: Response): Promise<void> => {
@@ -91,6 +95,90 @@ export class UserController {
     }
   };
 
+  revokeSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      const user = await this.userService.getUserByIdAsync(userId);
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      const revoked = await this.sessionService.revokeAllSessionsAsync(userId);
+      res.json({ message: 'Sessions revoked successfully', revoked });
+    } catch (error) {
+      console.error('Error revoking user sessions:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getLockouts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const lockouts = await this.loginThrottleService.getLockoutEventsAsync();
+      res.json(lockouts);
+    } catch (error) {
+      console.error('Error getting lockout events:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  unlockUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const { userId } = req.params;
+
+      const user = await this.userService.getUserByIdAsync(userId);
+      if (!user) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      const wasLocked = await this.loginThrottleService.unlockUserAsync(user.username, req.userContext.username);
+      res.json({ message: 'Account unlocked successfully', wasLocked });
+    } catch (error) {
+      console.error('Error unlocking user:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  createPasswordReset = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userContext || req.userContext.role < UserRole.Admin) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      const { userId } = req.params;
+      const resetToken = await this.userService.createPasswordResetAsync(userId);
+
+      if (!resetToken) {
+        res.status(404).json({ message: 'User not found' });
+        return;
+      }
+
+      // Handed to the user out of band and redeemed via POST /api/auth/password/reset
+      res.status(201).json(resetToken);
+    } catch (error) {
+      console.error('Error creating password reset:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
   deleteUser = async (req: Request, res: Response): Promise<void> => {
     try {
       if (!req.userContext || req.userContext.role < UserRole.Admin) {
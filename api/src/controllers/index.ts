@@ -2,4 +2,14 @@ export * from './AuthController';
 export * from './AuthInfoController';
 export * from './BlobStorageController';
 export * from './TagsController';
-export * from './UserController';
\ No newline at end of file
+export * from './UserController';
+export * from './PromotionController';
+export * from './SignOffController';
+export * from './OidcController';
+export * from './SamlController';
+export * from './ApiKeyController';
+export * from './RegistrationController';
+export * from './TwoFactorController';
+export * from './AccessControlController';
+export * from './AuditController';
+export * from './UploadSessionController';
\ No newline at end of file
@@ -1,6 +1,44 @@
 import sqlite3 from 'sqlite3';
 import { promisify } from 'util';
-import { User, UserRole, Tag } from '../models';
+import { TagExpression } from '../utils';
+import {
+  User,
+  UserRole,
+  Tag,
+  TagCategory,
+  PromotionRequest,
+  PromotionStatus,
+  SignOff,
+  SignOffType,
+  IndexedObject,
+  IndexedContentMatch,
+  FileQuery,
+  Session,
+  ApiKey,
+  ApiKeyScope,
+  BucketScope,
+  UserToken,
+  UserTokenPurpose,
+  LoginFailureCounter,
+  LockoutEvent,
+  LockoutScope,
+  TwoFactorCredential,
+  Group,
+  GroupMember,
+  AccessGrant,
+  FilePermission,
+  HiddenPath,
+  AuditEntry,
+  AuditOutcome,
+  AuditQuery,
+  UploadSession,
+  UploadedPart,
+  DeletedFile,
+  DeletedFileQuery
+} from '../models';
+
+// Keeps IN (...) lists well under SQLite's limit on bound parameters
+const MAX_IN_LIST_SIZE = 500;
 
 export class Database {
   private db: sqlite3.Database;
@@ -23,10 +61,218 @@ export class Database {
         Role INTEGER NOT NULL DEFAULT 2,
         CreatedAt TEXT NOT NULL,
         LastLoginAt TEXT,
-        IsActive INTEGER NOT NULL DEFAULT 1
+        IsActive INTEGER NOT NULL DEFAULT 1,
+        MustChangePassword INTEGER NOT NULL DEFAULT 0,
+        EmailConfirmed INTEGER NOT NULL DEFAULT 1
+      )
+    `);
+
+    await this.addColumnIfMissing('Users', 'MustChangePassword', 'INTEGER NOT NULL DEFAULT 0');
+    await this.addColumnIfMissing('Users', 'EmailConfirmed', 'INTEGER NOT NULL DEFAULT 1');
+
+    // Create UserTokens table for single-use tokens such as password resets
+    await run(`
+      CREATE TABLE IF NOT EXISTS UserTokens (
+        Id TEXT PRIMARY KEY,
+        UserId TEXT NOT NULL,
+        Purpose TEXT NOT NULL,
+        TokenHash TEXT NOT NULL,
+        CreatedAt TEXT NOT NULL,
+        ExpiresAt TEXT NOT NULL,
+        UsedAt TEXT
+      )
+    `);
+
+    // Create TwoFactorCredentials table; a row without EnabledAt is an enrolment that hasn't been verified yet
+    await run(`
+      CREATE TABLE IF NOT EXISTS TwoFactorCredentials (
+        UserId TEXT PRIMARY KEY,
+        Secret TEXT NOT NULL,
+        CreatedAt TEXT NOT NULL,
+        EnabledAt TEXT,
+        LastUsedStep INTEGER,
+        RecoveryCodeHashes TEXT NOT NULL DEFAULT '[]'
+      )
+    `);
+
+    // Create ExternalLogins table linking identity provider subjects to users
+    await run(`
+      CREATE TABLE IF NOT EXISTS ExternalLogins (
+        Provider TEXT NOT NULL,
+        Subject TEXT NOT NULL,
+        UserId TEXT NOT NULL,
+        CreatedAt TEXT NOT NULL,
+        PRIMARY KEY (Provider, Subject)
+      )
+    `);
+
+    // Create Sessions table; refresh tokens are stored only as SHA-256 hashes
+    await run(`
+      CREATE TABLE IF NOT EXISTS Sessions (
+        Id TEXT PRIMARY KEY,
+        UserId TEXT NOT NULL,
+        RefreshTokenHash TEXT NOT NULL,
+        PreviousTokenHash TEXT,
+        CreatedAt TEXT NOT NULL,
+        ExpiresAt TEXT NOT NULL,
+        LastUsedAt TEXT,
+        RevokedAt TEXT
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS IX_Sessions_UserId ON Sessions (UserId)');
+
+    // Create ApiKeys table; like refresh tokens, keys are stored only as SHA-256 hashes
+    await run(`
+      CREATE TABLE IF NOT EXISTS ApiKeys (
+        Id TEXT PRIMARY KEY,
+        UserId TEXT NOT NULL,
+        Name TEXT NOT NULL,
+        KeyHash TEXT NOT NULL,
+        Scopes TEXT NOT NULL DEFAULT '[]',
+        Bucket TEXT,
+        CreatedAt TEXT NOT NULL,
+        ExpiresAt TEXT,
+        LastUsedAt TEXT,
+        RevokedAt TEXT
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS IX_ApiKeys_UserId ON ApiKeys (UserId)');
+
+    // Create LoginFailures table counting recent failed sign-ins per username and per client address
+    await run(`
+      CREATE TABLE IF NOT EXISTS LoginFailures (
+        Scope TEXT NOT NULL,
+        Subject TEXT NOT NULL,
+        FailedCount INTEGER NOT NULL,
+        FirstFailedAt TEXT NOT NULL,
+        LastFailedAt TEXT NOT NULL,
+        LockedUntil TEXT,
+        PRIMARY KEY (Scope, Subject)
+      )
+    `);
+
+    // Create LockoutEvents table so admins can review lockouts after the counters are gone
+    await run(`
+      CREATE TABLE IF NOT EXISTS LockoutEvents (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        Scope TEXT NOT NULL,
+        Subject TEXT NOT NULL,
+        IpAddress TEXT,
+        FailedAttempts INTEGER NOT NULL,
+        LockedAt TEXT NOT NULL,
+        LockedUntil TEXT NOT NULL,
+        UnlockedBy TEXT,
+        UnlockedAt TEXT
+      )
+    `);
+
+    // Create Groups, GroupMembers and AccessGrants tables for path-prefix permissions
+    await run(`
+      CREATE TABLE IF NOT EXISTS Groups (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        Name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        Description TEXT,
+        CreatedAt TEXT NOT NULL
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS GroupMembers (
+        GroupId INTEGER NOT NULL,
+        UserId TEXT NOT NULL,
+        PRIMARY KEY (GroupId, UserId),
+        FOREIGN KEY (GroupId) REFERENCES Groups (Id),
+        FOREIGN KEY (UserId) REFERENCES Users (Id)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS AccessGrants (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        PathPrefix TEXT NOT NULL,
+        GroupId INTEGER NOT NULL,
+        Permissions TEXT NOT NULL DEFAULT '[]',
+        CreatedBy TEXT NOT NULL,
+        CreatedAt TEXT NOT NULL,
+        UNIQUE (PathPrefix, GroupId),
+        FOREIGN KEY (GroupId) REFERENCES Groups (Id)
+      )
+    `);
+
+    // Create AuditLog table; entries are only ever appended
+    await run(`
+      CREATE TABLE IF NOT EXISTS AuditLog (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        Timestamp TEXT NOT NULL,
+        Actor TEXT,
+        UserId TEXT,
+        ApiKeyId TEXT,
+        Action TEXT NOT NULL,
+        Object TEXT,
+        VersionId TEXT,
+        IpAddress TEXT,
+        Outcome TEXT NOT NULL,
+        StatusCode INTEGER NOT NULL
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS IX_AuditLog_Timestamp ON AuditLog (Timestamp)');
+    await run('CREATE INDEX IF NOT EXISTS IX_AuditLog_Actor ON AuditLog (Actor)');
+    await run('CREATE INDEX IF NOT EXISTS IX_AuditLog_Object ON AuditLog (Object)');
+
+    // Create UploadSessions and UploadSessionParts tables; parts record what MinIO has acknowledged
+    await run(`
+      CREATE TABLE IF NOT EXISTS UploadSessions (
+        Id TEXT PRIMARY KEY,
+        FileName TEXT NOT NULL,
+        Bucket TEXT NOT NULL,
+        UploadId TEXT NOT NULL,
+        ContentType TEXT NOT NULL,
+        Tags TEXT NOT NULL DEFAULT '[]',
+        Metadata TEXT NOT NULL DEFAULT '{}',
+        UserId TEXT NOT NULL,
+        CreatedBy TEXT NOT NULL,
+        CreatedAt TEXT NOT NULL,
+        ExpiresAt TEXT NOT NULL
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS UploadSessionParts (
+        SessionId TEXT NOT NULL,
+        PartNumber INTEGER NOT NULL,
+        ETag TEXT NOT NULL,
+        Size INTEGER NOT NULL,
+        UploadedAt TEXT NOT NULL,
+        PRIMARY KEY (SessionId, PartNumber)
       )
     `);
 
+    await run('CREATE INDEX IF NOT EXISTS IX_UploadSessions_UserId ON UploadSessions (UserId)');
+
+    // Create DeletedFiles table; the content itself stays in MinIO until the entry is purged
+    await run(`
+      CREATE TABLE IF NOT EXISTS DeletedFiles (
+        Id TEXT PRIMARY KEY,
+        Bucket TEXT NOT NULL,
+        FileName TEXT NOT NULL,
+        Size INTEGER NOT NULL,
+        ETag TEXT NOT NULL,
+        VersionId TEXT,
+        ContentType TEXT,
+        Tags TEXT NOT NULL DEFAULT '[]',
+        DeleteMarkerVersionId TEXT,
+        RecycleKey TEXT,
+        DeletedBy TEXT NOT NULL,
+        DeletedAt TEXT NOT NULL,
+        ExpiresAt TEXT NOT NULL
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS IX_DeletedFiles_FileName ON DeletedFiles (Bucket, FileName)');
+
     // Create PreDefinedTags table
     await run(`
       CREATE TABLE IF NOT EXISTS PreDefinedTags (
@@ -34,6 +280,99 @@ export class Database {
         Name TEXT NOT NULL UNIQUE
       )
     `);
+
+    // Create TagCategories table for key=value tags
+    await run(`
+      CREATE TABLE IF NOT EXISTS TagCategories (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        Name TEXT NOT NULL UNIQUE,
+        AllowedValues TEXT NOT NULL DEFAULT '[]'
+      )
+    `);
+
+    // Create PromotionRequests table
+    await run(`
+      CREATE TABLE IF NOT EXISTS PromotionRequests (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        FileName TEXT NOT NULL,
+        VersionId TEXT,
+        ETag TEXT,
+        ReleaseNote TEXT NOT NULL,
+        Status TEXT NOT NULL DEFAULT 'Pending',
+        RequestedBy TEXT NOT NULL,
+        RequestedAt TEXT NOT NULL,
+        ReviewedBy TEXT,
+        ReviewedAt TEXT,
+        ReviewComment TEXT,
+        StableVersionId TEXT
+      )
+    `);
+
+    // Create SignOffs table
+    await run(`
+      CREATE TABLE IF NOT EXISTS SignOffs (
+        Id INTEGER PRIMARY KEY AUTOINCREMENT,
+        FileName TEXT NOT NULL,
+        VersionId TEXT,
+        ETag TEXT NOT NULL,
+        Type TEXT NOT NULL,
+        SignedBy TEXT NOT NULL,
+        SignedAt TEXT NOT NULL,
+        Comment TEXT NOT NULL,
+        IsValid INTEGER NOT NULL DEFAULT 1,
+        InvalidatedAt TEXT
+      )
+    `);
+
+    // Create ObjectIndex and ObjectTags tables
+    await run(`
+      CREATE TABLE IF NOT EXISTS ObjectIndex (
+        Bucket TEXT NOT NULL,
+        FileName TEXT NOT NULL,
+        Size INTEGER NOT NULL,
+        LastModified TEXT NOT NULL,
+        ETag TEXT NOT NULL,
+        VersionId TEXT,
+        ContentType TEXT,
+        Category TEXT,
+        CreatedBy TEXT,
+        Metadata TEXT NOT NULL DEFAULT '{}',
+        IndexedAt TEXT NOT NULL,
+        PRIMARY KEY (Bucket, FileName)
+      )
+    `);
+
+    await run(`
+      CREATE TABLE IF NOT EXISTS ObjectTags (
+        Bucket TEXT NOT NULL,
+        FileName TEXT NOT NULL,
+        Position INTEGER NOT NULL,
+        Tag TEXT NOT NULL,
+        PRIMARY KEY (Bucket, FileName, Position)
+      )
+    `);
+
+    await run('CREATE INDEX IF NOT EXISTS IX_ObjectTags_Tag ON ObjectTags (Tag)');
+
+    // Create ObjectContent full-text table; underscores are kept so Calcpad names like M_Ed stay one token
+    await run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS ObjectContent USING fts5(
+        Bucket UNINDEXED,
+        FileName UNINDEXED,
+        Content,
+        tokenize = "unicode61 tokenchars '_'"
+      )
+    `);
+  }
+
+  // Adds a column to a table created by an older version of the schema
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const columns = await all(`PRAGMA table_info(${table})`) as { name: string }[];
+
+    if (!columns.some(existing => existing.name === column)) {
+      await this.runQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
   }
 
   // Helper method for SQLite run operations with proper callback handling
@@ -57,9 +396,20 @@ export class Database {
     const id = crypto.randomUUID();
     
     await this.runQuery(
-      `INSERT INTO Users (Id, Username, Email, PasswordHash, Role, CreatedAt, LastLoginAt, IsActive) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [id, user.username, user.email, user.passwordHash, user.role, user.createdAt, user.lastLoginAt, user.isActive ? 1 : 0]
+      `INSERT INTO Users (Id, Username, Email, PasswordHash, Role, CreatedAt, LastLoginAt, IsActive, MustChangePassword, EmailConfirmed) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        user.username,
+        user.email,
+        user.passwordHash,
+        user.role,
+        user.createdAt,
+        user.lastLoginAt,
+        user.isActive ? 1 : 0,
+        user.mustChangePassword ? 1 : 0,
+        user.emailConfirmed ? 1 : 0
+      ]
     );
 
     return { id, ...user };
@@ -73,29 +423,7 @@ export class Database {
       [username]
     );
 
-    if (!row) return null;
-
-    const user = row as {
-      Id: string;
-      Username: string;
-      Email: string;
-      PasswordHash: string;
-      Role: number;
-      CreatedAt: string;
-      LastLoginAt: string | null;
-      IsActive: number;
-    };
-
-    return {
-      id: user.Id,
-      username: user.Username,
-      email: user.Email,
-      passwordHash: user.PasswordHash,
-      role: user.Role as UserRole,
-      createdAt: user.CreatedAt,
-      lastLoginAt: user.LastLoginAt || undefined,
-      isActive: user.IsActive === 1
-    };
+    return row ? this.mapUser(row) : null;
   }
 
   async getUserById(id: string): Promise<User | null> {
@@ -106,29 +434,7 @@ export class Database {
       [id]
     );
 
-    if (!row) return null;
-
-    const user = row as {
-      Id: string;
-      Username: string;
-      Email: string;
-      PasswordHash: string;
-      Role: number;
-      CreatedAt: string;
-      LastLoginAt: string | null;
-      IsActive: number;
-    };
-
-    return {
-      id: user.Id,
-      username: user.Username,
-      email: user.Email,
-      passwordHash: user.PasswordHash,
-      role: user.Role as UserRole,
-      createdAt: user.CreatedAt,
-      lastLoginAt: user.LastLoginAt || undefined,
-      isActive: user.IsActive === 1
-    };
+    return row ? this.mapUser(row) : null;
   }
 
   async getAllUsers(): Promise<User[]> {
@@ -136,29 +442,7 @@ export class Database {
     
     const rows = await all('SELECT * FROM Users');
 
-    return rows.map(row => {
-      const user = row as {
-        Id: string;
-        Username: string;
-        Email: string;
-        PasswordHash: string;
-        Role: number;
-        CreatedAt: string;
-        LastLoginAt: string | null;
-        IsActive: number;
-      };
-
-      return {
-        id: user.Id,
-        username: user.Username,
-        email: user.Email,
-        passwordHash: user.PasswordHash,
-        role: user.Role as UserRole,
-        createdAt: user.CreatedAt,
-        lastLoginAt: user.LastLoginAt || undefined,
-        isActive: user.IsActive === 1
-      };
-    });
+    return rows.map(row => this.mapUser(row));
   }
 
   async updateUser(id: string, updates: Partial<User>): Promise<boolean> {
@@ -189,6 +473,14 @@ export class Database {
       fields.push('IsActive = ?');
       values.push(updates.isActive ? 1 : 0);
     }
+    if (updates.mustChangePassword !== undefined) {
+      fields.push('MustChangePassword = ?');
+      values.push(updates.mustChangePassword ? 1 : 0);
+    }
+    if (updates.emailConfirmed !== undefined) {
+      fields.push('EmailConfirmed = ?');
+      values.push(updates.emailConfirmed ? 1 : 0);
+    }
 
     if (fields.length === 0) {
       return false;
@@ -205,59 +497,1633 @@ export class Database {
   }
 
   async deleteUser(id: string): Promise<boolean> {
+    await this.runQuery('DELETE FROM ExternalLogins WHERE UserId = ?', [id]);
+    await this.runQuery('DELETE FROM Sessions WHERE UserId = ?', [id]);
+    await this.runQuery('DELETE FROM ApiKeys WHERE UserId = ?', [id]);
+    await this.runQuery('DELETE FROM UserTokens WHERE UserId = ?', [id]);
+    await this.runQuery('DELETE FROM TwoFactorCredentials WHERE UserId = ?', [id]);
+    await this.runQuery('DELETE FROM GroupMembers WHERE UserId = ?', [id]);
     const result = await this.runQuery('DELETE FROM Users WHERE Id = ?', [id]);
     return result.changes > 0;
   }
 
-  // Tag methods
-  async createTag(name: string): Promise<Tag> {
-    const result = await this.runQuery(
-      'INSERT INTO PreDefinedTags (Name) VALUES (?)',
-      [name]
+  async getUserByEmail(email: string): Promise<User | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM Users WHERE Email = ? COLLATE NOCASE',
+      [email]
     );
 
-    return {
-      id: result.lastID,
-      name
-    };
+    return row ? this.mapUser(row) : null;
   }
 
-  async getAllTags(): Promise<Tag[]> {
-    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+  // External login methods
+  async getUserByExternalLogin(provider: string, subject: string): Promise<User | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
     
-    const rows = await all('SELECT * FROM PreDefinedTags');
+    const row = await get(
+      `SELECT u.* FROM ExternalLogins l
+       JOIN Users u ON u.Id = l.UserId
+       WHERE l.Provider = ? AND l.Subject = ?`,
+      [provider, subject]
+    );
 
-    return rows.map(row => {
-      const tag = row as { Id: number; Name: string };
-      return {
-        id: tag.Id,
-        name: tag.Name
-      };
-    });
+    return row ? this.mapUser(row) : null;
   }
 
-  async getTagById(id: number): Promise<Tag | null> {
+  async createExternalLogin(provider: string, subject: string, userId: string): Promise<void> {
+    await this.runQuery(
+      'INSERT INTO ExternalLogins (Provider, Subject, UserId, CreatedAt) VALUES (?, ?, ?, ?)',
+      [provider, subject, userId, new Date().toISOString()]
+    );
+  }
+
+  // Session methods
+  async createSession(session: Session): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO Sessions (Id, UserId, RefreshTokenHash, CreatedAt, ExpiresAt) 
+       VALUES (?, ?, ?, ?, ?)`,
+      [session.id, session.userId, session.refreshTokenHash, session.createdAt, session.expiresAt]
+    );
+  }
+
+  async getSessionById(id: string): Promise<Session | null> {
     const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
     
-    const row = await get(
-      'SELECT * FROM PreDefinedTags WHERE Id = ?',
-      [id]
+    const row = await get('SELECT * FROM Sessions WHERE Id = ?', [id]);
+
+    if (!row) return null;
+
+    const session = row as {
+      Id: string;
+      UserId: string;
+      RefreshTokenHash: string;
+      PreviousTokenHash: string | null;
+      CreatedAt: string;
+      ExpiresAt: string;
+      LastUsedAt: string | null;
+      RevokedAt: string | null;
+    };
+
+    return {
+      id: session.Id,
+      userId: session.UserId,
+      refreshTokenHash: session.RefreshTokenHash,
+      previousTokenHash: session.PreviousTokenHash || undefined,
+      createdAt: session.CreatedAt,
+      expiresAt: session.ExpiresAt,
+      lastUsedAt: session.LastUsedAt || undefined,
+      revokedAt: session.RevokedAt || undefined
+    };
+  }
+
+  async rotateSessionToken(id: string, currentHash: string, newHash: string, usedAt: string): Promise<boolean> {
+    // Guarded on the current hash so two concurrent refreshes cannot both succeed
+    const result = await this.runQuery(
+      `UPDATE Sessions SET RefreshTokenHash = ?, PreviousTokenHash = ?, LastUsedAt = ? 
+       WHERE Id = ? AND RefreshTokenHash = ? AND RevokedAt IS NULL`,
+      [newHash, currentHash, usedAt, id, currentHash]
+    );
+    return result.changes > 0;
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const result = await this.runQuery(
+      'UPDATE Sessions SET RevokedAt = ? WHERE Id = ? AND RevokedAt IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.changes > 0;
+  }
+
+  async revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await this.runQuery(
+      'UPDATE Sessions SET RevokedAt = ? WHERE UserId = ? AND Id IS NOT ? AND RevokedAt IS NULL',
+      [new Date().toISOString(), userId, exceptSessionId || null]
     );
+    return result.changes;
+  }
+
+  async deleteExpiredSessions(now: string): Promise<number> {
+    const result = await this.runQuery('DELETE FROM Sessions WHERE ExpiresAt <= ?', [now]);
+    return result.changes;
+  }
+
+  // User token methods
+  async createUserToken(token: UserToken): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO UserTokens (Id, UserId, Purpose, TokenHash, CreatedAt, ExpiresAt) 
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [token.id, token.userId, token.purpose, token.tokenHash, token.createdAt, token.expiresAt]
+    );
+  }
+
+  async getUserToken(id: string, purpose: UserTokenPurpose): Promise<UserToken | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM UserTokens WHERE Id = ? AND Purpose = ?', [id, purpose]);
 
     if (!row) return null;
 
-    const tag = row as { Id: number; Name: string };
+    const token = row as {
+      Id: string;
+      UserId: string;
+      Purpose: string;
+      TokenHash: string;
+      CreatedAt: string;
+      ExpiresAt: string;
+      UsedAt: string | null;
+    };
+
     return {
-      id: tag.Id,
-      name: tag.Name
+      id: token.Id,
+      userId: token.UserId,
+      purpose: token.Purpose as UserTokenPurpose,
+      tokenHash: token.TokenHash,
+      createdAt: token.CreatedAt,
+      expiresAt: token.ExpiresAt,
+      usedAt: token.UsedAt || undefined
     };
   }
 
-  async deleteTag(id: number): Promise<boolean> {
-    const result = await this.runQuery('DELETE FROM PreDefinedTags WHERE Id = ?', [id]);
+  async markUserTokenUsed(id: string): Promise<boolean> {
+    // Guarded so a token can only be redeemed once, even by concurrent requests
+    const result = await this.runQuery(
+      'UPDATE UserTokens SET UsedAt = ? WHERE Id = ? AND UsedAt IS NULL',
+      [new Date().toISOString(), id]
+    );
     return result.changes > 0;
   }
 
+  async invalidateUserTokens(userId: string, purpose: UserTokenPurpose): Promise<number> {
+    const result = await this.runQuery(
+      'UPDATE UserTokens SET UsedAt = ? WHERE UserId = ? AND Purpose = ? AND UsedAt IS NULL',
+      [new Date().toISOString(), userId, purpose]
+    );
+    return result.changes;
+  }
+
+  // Two-factor methods
+  async getTwoFactorCredential(userId: string): Promise<TwoFactorCredential | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM TwoFactorCredentials WHERE UserId = ?', [userId]);
+
+    if (!row) return null;
+
+    const credential = row as {
+      UserId: string;
+      Secret: string;
+      CreatedAt: string;
+      EnabledAt: string | null;
+      LastUsedStep: number | null;
+      RecoveryCodeHashes: string;
+    };
+
+    return {
+      userId: credential.UserId,
+      secret: credential.Secret,
+      createdAt: credential.CreatedAt,
+      enabledAt: credential.EnabledAt || undefined,
+      lastUsedStep: credential.LastUsedStep ?? undefined,
+      recoveryCodeHashes: JSON.parse(credential.RecoveryCodeHashes)
+    };
+  }
+
+  async saveTwoFactorSecret(userId: string, secret: string, createdAt: string): Promise<void> {
+    // Starting over replaces any unverified enrolment
+    await this.runQuery(
+      `INSERT OR REPLACE INTO TwoFactorCredentials (UserId, Secret, CreatedAt) VALUES (?, ?, ?)`,
+      [userId, secret, createdAt]
+    );
+  }
+
+  async enableTwoFactor(userId: string, enabledAt: string, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+    const result = await this.runQuery(
+      `UPDATE TwoFactorCredentials SET EnabledAt = ?, LastUsedStep = ?, RecoveryCodeHashes = ? 
+       WHERE UserId = ? AND EnabledAt IS NULL`,
+      [enabledAt, step, JSON.stringify(recoveryCodeHashes), userId]
+    );
+    return result.changes > 0;
+  }
+
+  async useTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    // Guarded so a code can't be replayed, even by two concurrent requests
+    const result = await this.runQuery(
+      `UPDATE TwoFactorCredentials SET LastUsedStep = ? 
+       WHERE UserId = ? AND EnabledAt IS NOT NULL AND (LastUsedStep IS NULL OR LastUsedStep < ?)`,
+      [step, userId, step]
+    );
+    return result.changes > 0;
+  }
+
+  async replaceTwoFactorRecoveryCodes(userId: string, currentHashes: string[], newHashes: string[]): Promise<boolean> {
+    const result = await this.runQuery(
+      'UPDATE TwoFactorCredentials SET RecoveryCodeHashes = ? WHERE UserId = ? AND RecoveryCodeHashes = ?',
+      [JSON.stringify(newHashes), userId, JSON.stringify(currentHashes)]
+    );
+    return result.changes > 0;
+  }
+
+  async deleteTwoFactorCredential(userId: string): Promise<boolean> {
+    const result = await this.runQuery('DELETE FROM TwoFactorCredentials WHERE UserId = ?', [userId]);
+    return result.changes > 0;
+  }
+
+  // API key methods
+  async createApiKey(apiKey: ApiKey): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO ApiKeys (Id, UserId, Name, KeyHash, Scopes, Bucket, CreatedAt, ExpiresAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        apiKey.id,
+        apiKey.userId,
+        apiKey.name,
+        apiKey.keyHash,
+        JSON.stringify(apiKey.scopes),
+        apiKey.bucket || null,
+        apiKey.createdAt,
+        apiKey.expiresAt || null
+      ]
+    );
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKey | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM ApiKeys WHERE Id = ?', [id]);
+
+    return row ? this.mapApiKey(row) : null;
+  }
+
+  async getApiKeysForUser(userId: string): Promise<ApiKey[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      'SELECT * FROM ApiKeys WHERE UserId = ? ORDER BY CreatedAt DESC',
+      [userId]
+    );
+
+    return rows.map(row => this.mapApiKey(row));
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    const result = await this.runQuery(
+      'UPDATE ApiKeys SET RevokedAt = ? WHERE Id = ? AND RevokedAt IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.changes > 0;
+  }
+
+  async updateApiKeyLastUsed(id: string, usedAt: string): Promise<void> {
+    await this.runQuery('UPDATE ApiKeys SET LastUsedAt = ? WHERE Id = ?', [usedAt, id]);
+  }
+
+  // Login throttling methods
+  async getLoginFailure(scope: LockoutScope, subject: string): Promise<LoginFailureCounter | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM LoginFailures WHERE Scope = ? AND Subject = ?', [scope, subject]);
+
+    if (!row) return null;
+
+    const failure = row as {
+      Scope: string;
+      Subject: string;
+      FailedCount: number;
+      FirstFailedAt: string;
+      LastFailedAt: string;
+      LockedUntil: string | null;
+    };
+
+    return {
+      scope: failure.Scope as LockoutScope,
+      subject: failure.Subject,
+      failedCount: failure.FailedCount,
+      firstFailedAt: failure.FirstFailedAt,
+      lastFailedAt: failure.LastFailedAt,
+      lockedUntil: failure.LockedUntil || undefined
+    };
+  }
+
+  async recordLoginFailure(scope: LockoutScope, subject: string, failedAt: string, windowStart: string): Promise<void> {
+    // The count starts over once the previous failure falls outside the window
+    await this.runQuery(
+      `INSERT INTO LoginFailures (Scope, Subject, FailedCount, FirstFailedAt, LastFailedAt) 
+       VALUES (?, ?, 1, ?, ?) 
+       ON CONFLICT (Scope, Subject) DO UPDATE SET 
+         FailedCount = CASE WHEN LastFailedAt < ? THEN 1 ELSE FailedCount + 1 END, 
+         FirstFailedAt = CASE WHEN LastFailedAt < ? THEN excluded.FirstFailedAt ELSE FirstFailedAt END, 
+         LastFailedAt = excluded.LastFailedAt`,
+      [scope, subject, failedAt, failedAt, windowStart, windowStart]
+    );
+  }
+
+  async lockLoginSubject(scope: LockoutScope, subject: string, lockedUntil: string): Promise<void> {
+    // Reset the count so the subject gets a fresh allowance once the lockout ends
+    await this.runQuery(
+      'UPDATE LoginFailures SET LockedUntil = ?, FailedCount = 0 WHERE Scope = ? AND Subject = ?',
+      [lockedUntil, scope, subject]
+    );
+  }
+
+  async clearLoginFailures(scope: LockoutScope, subject: string): Promise<boolean> {
+    const result = await this.runQuery(
+      'DELETE FROM LoginFailures WHERE Scope = ? AND Subject = ?',
+      [scope, subject]
+    );
+    return result.changes > 0;
+  }
+
+  async deleteStaleLoginFailures(lastFailedBefore: string, now: string): Promise<number> {
+    const result = await this.runQuery(
+      'DELETE FROM LoginFailures WHERE LastFailedAt < ? AND (LockedUntil IS NULL OR LockedUntil <= ?)',
+      [lastFailedBefore, now]
+    );
+    return result.changes;
+  }
+
+  async createLockoutEvent(event: Omit<LockoutEvent, 'id'>): Promise<LockoutEvent> {
+    const result = await this.runQuery(
+      `INSERT INTO LockoutEvents (Scope, Subject, IpAddress, FailedAttempts, LockedAt, LockedUntil) 
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [event.scope, event.subject, event.ipAddress || null, event.failedAttempts, event.lockedAt, event.lockedUntil]
+    );
+
+    return { id: result.lastID, ...event };
+  }
+
+  async getLockoutEvents(limit: number): Promise<LockoutEvent[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM LockoutEvents ORDER BY LockedAt DESC, Id DESC LIMIT ?', [limit]);
+
+    return rows.map(row => {
+      const event = row as {
+        Id: number;
+        Scope: string;
+        Subject: string;
+        IpAddress: string | null;
+        FailedAttempts: number;
+        LockedAt: string;
+        LockedUntil: string;
+        UnlockedBy: string | null;
+        UnlockedAt: string | null;
+      };
+
+      return {
+        id: event.Id,
+        scope: event.Scope as LockoutScope,
+        subject: event.Subject,
+        ipAddress: event.IpAddress || undefined,
+        failedAttempts: event.FailedAttempts,
+        lockedAt: event.LockedAt,
+        lockedUntil: event.LockedUntil,
+        unlockedBy: event.UnlockedBy || undefined,
+        unlockedAt: event.UnlockedAt || undefined
+      };
+    });
+  }
+
+  async markLockoutEventsUnlocked(scope: LockoutScope, subject: string, unlockedBy: string, unlockedAt: string): Promise<number> {
+    const result = await this.runQuery(
+      `UPDATE LockoutEvents SET UnlockedBy = ?, UnlockedAt = ? 
+       WHERE Scope = ? AND Subject = ? AND LockedUntil > ? AND UnlockedAt IS NULL`,
+      [unlockedBy, unlockedAt, scope, subject, unlockedAt]
+    );
+    return result.changes;
+  }
+
+  private mapApiKey(row: unknown): ApiKey {
+    const apiKey = row as {
+      Id: string;
+      UserId: string;
+      Name: string;
+      KeyHash: string;
+      Scopes: string;
+      Bucket: string | null;
+      CreatedAt: string;
+      ExpiresAt: string | null;
+      LastUsedAt: string | null;
+      RevokedAt: string | null;
+    };
+
+    return {
+      id: apiKey.Id,
+      userId: apiKey.UserId,
+      name: apiKey.Name,
+      keyHash: apiKey.KeyHash,
+      scopes: JSON.parse(apiKey.Scopes) as ApiKeyScope[],
+      bucket: (apiKey.Bucket as BucketScope) || undefined,
+      createdAt: apiKey.CreatedAt,
+      expiresAt: apiKey.ExpiresAt || undefined,
+      lastUsedAt: apiKey.LastUsedAt || undefined,
+      revokedAt: apiKey.RevokedAt || undefined
+    };
+  }
+
+  private mapUser(row: unknown): User {
+    const user = row as {
+      Id: string;
+      Username: string;
+      Email: string;
+      PasswordHash: string;
+      Role: number;
+      CreatedAt: string;
+      LastLoginAt: string | null;
+      IsActive: number;
+      MustChangePassword: number;
+      EmailConfirmed: number;
+    };
+
+    return {
+      id: user.Id,
+      username: user.Username,
+      email: user.Email,
+      passwordHash: user.PasswordHash,
+      role: user.Role as UserRole,
+      createdAt: user.CreatedAt,
+      lastLoginAt: user.LastLoginAt || undefined,
+      isActive: user.IsActive === 1,
+      mustChangePassword: user.MustChangePassword === 1,
+      emailConfirmed: user.EmailConfirmed === 1
+    };
+  }
+
+  // Group and access grant methods
+  async createGroup(name: string, description: string | undefined, createdAt: string): Promise<Group> {
+    const result = await this.runQuery(
+      'INSERT INTO Groups (Name, Description, CreatedAt) VALUES (?, ?, ?)',
+      [name, description || null, createdAt]
+    );
+
+    return { id: result.lastID, name, description, createdAt, members: [] };
+  }
+
+  async getAllGroups(): Promise<Group[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM Groups ORDER BY Name');
+
+    return this.attachGroupMembers(rows.map(row => this.mapGroup(row)));
+  }
+
+  async getGroupById(id: number): Promise<Group | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM Groups WHERE Id = ?', [id]);
+
+    if (!row) return null;
+
+    const [group] = await this.attachGroupMembers([this.mapGroup(row)]);
+    return group;
+  }
+
+  async getGroupByName(name: string): Promise<Group | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM Groups WHERE Name = ?', [name]);
+
+    if (!row) return null;
+
+    const [group] = await this.attachGroupMembers([this.mapGroup(row)]);
+    return group;
+  }
+
+  async deleteGroup(id: number): Promise<boolean> {
+    await this.runQuery('DELETE FROM AccessGrants WHERE GroupId = ?', [id]);
+    await this.runQuery('DELETE FROM GroupMembers WHERE GroupId = ?', [id]);
+    const result = await this.runQuery('DELETE FROM Groups WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  async addGroupMember(groupId: number, userId: string): Promise<boolean> {
+    const result = await this.runQuery(
+      'INSERT OR IGNORE INTO GroupMembers (GroupId, UserId) VALUES (?, ?)',
+      [groupId, userId]
+    );
+    return result.changes > 0;
+  }
+
+  async removeGroupMember(groupId: number, userId: string): Promise<boolean> {
+    const result = await this.runQuery(
+      'DELETE FROM GroupMembers WHERE GroupId = ? AND UserId = ?',
+      [groupId, userId]
+    );
+    return result.changes > 0;
+  }
+
+  async getGroupIdsForUser(userId: string): Promise<number[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT GroupId FROM GroupMembers WHERE UserId = ?', [userId]);
+
+    return rows.map(row => (row as { GroupId: number }).GroupId);
+  }
+
+  async upsertAccessGrant(grant: Omit<AccessGrant, 'id' | 'groupName'>): Promise<AccessGrant | null> {
+    // Granting the same group on the same path again replaces its permissions
+    await this.runQuery(
+      `INSERT INTO AccessGrants (PathPrefix, GroupId, Permissions, CreatedBy, CreatedAt) 
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (PathPrefix, GroupId) DO UPDATE SET 
+         Permissions = excluded.Permissions, 
+         CreatedBy = excluded.CreatedBy, 
+         CreatedAt = excluded.CreatedAt`,
+      [grant.pathPrefix, grant.groupId, JSON.stringify(grant.permissions), grant.createdBy, grant.createdAt]
+    );
+
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    const row = await get(
+      `SELECT a.*, g.Name AS GroupName FROM AccessGrants a JOIN Groups g ON g.Id = a.GroupId 
+       WHERE a.PathPrefix = ? AND a.GroupId = ?`,
+      [grant.pathPrefix, grant.groupId]
+    );
+
+    return row ? this.mapAccessGrant(row) : null;
+  }
+
+  async getAllAccessGrants(): Promise<AccessGrant[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      `SELECT a.*, g.Name AS GroupName FROM AccessGrants a JOIN Groups g ON g.Id = a.GroupId 
+       ORDER BY a.PathPrefix, g.Name`
+    );
+
+    return rows.map(row => this.mapAccessGrant(row));
+  }
+
+  async deleteAccessGrant(id: number): Promise<boolean> {
+    const result = await this.runQuery('DELETE FROM AccessGrants WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  private async attachGroupMembers(groups: Group[]): Promise<Group[]> {
+    if (groups.length === 0) {
+      return groups;
+    }
+
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      `SELECT m.GroupId, m.UserId, u.Username FROM GroupMembers m 
+       JOIN Users u ON u.Id = m.UserId 
+       WHERE m.GroupId IN (${groups.map(() => '?').join(', ')}) 
+       ORDER BY u.Username`,
+      groups.map(group => group.id)
+    );
+
+    const membersByGroup = new Map<number, GroupMember[]>();
+    for (const row of rows) {
+      const member = row as { GroupId: number; UserId: string; Username: string };
+      membersByGroup.set(member.GroupId, [
+        ...(membersByGroup.get(member.GroupId) || []),
+        { userId: member.UserId, username: member.Username }
+      ]);
+    }
+
+    return groups.map(group => ({ ...group, members: membersByGroup.get(group.id) || [] }));
+  }
+
+  private mapGroup(row: unknown): Group {
+    const group = row as { Id: number; Name: string; Description: string | null; CreatedAt: string };
+    return {
+      id: group.Id,
+      name: group.Name,
+      description: group.Description || undefined,
+      createdAt: group.CreatedAt,
+      members: []
+    };
+  }
+
+  private mapAccessGrant(row: unknown): AccessGrant {
+    const grant = row as {
+      Id: number;
+      PathPrefix: string;
+      GroupId: number;
+      GroupName: string;
+      Permissions: string;
+      CreatedBy: string;
+      CreatedAt: string;
+    };
+
+    return {
+      id: grant.Id,
+      pathPrefix: grant.PathPrefix,
+      groupId: grant.GroupId,
+      groupName: grant.GroupName,
+      permissions: JSON.parse(grant.Permissions) as FilePermission[],
+      createdBy: grant.CreatedBy,
+      createdAt: grant.CreatedAt
+    };
+  }
+
+  // Audit log methods
+  async createAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    const result = await this.runQuery(
+      `INSERT INTO AuditLog (Timestamp, Actor, UserId, ApiKeyId, Action, Object, VersionId, IpAddress, Outcome, StatusCode) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        entry.timestamp,
+        entry.actor || null,
+        entry.userId || null,
+        entry.apiKeyId || null,
+        entry.action,
+        entry.object || null,
+        entry.versionId || null,
+        entry.ipAddress || null,
+        entry.outcome,
+        entry.statusCode
+      ]
+    );
+
+    return { id: result.lastID, ...entry };
+  }
+
+  async queryAuditEntries(query: Omit<AuditQuery, 'cursor'>, beforeId?: number): Promise<AuditEntry[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.actor) {
+      conditions.push('Actor = ? COLLATE NOCASE');
+      values.push(query.actor);
+    }
+    // Actions and objects match by prefix, so `file.` or `project-a/` select a whole family
+    if (query.action) {
+      conditions.push('substr(Action, 1, ?) = ?');
+      values.push(query.action.length, query.action);
+    }
+    if (query.object) {
+      conditions.push('substr(Object, 1, ?) = ?');
+      values.push(query.object.length, query.object);
+    }
+    if (query.outcome) {
+      conditions.push('Outcome = ?');
+      values.push(query.outcome);
+    }
+    if (query.from) {
+      conditions.push('Timestamp >= ?');
+      values.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('Timestamp <= ?');
+      values.push(query.to);
+    }
+    if (beforeId !== undefined) {
+      conditions.push('Id < ?');
+      values.push(beforeId);
+    }
+
+    const rows = await all(
+      `SELECT * FROM AuditLog ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} 
+       ORDER BY Id DESC 
+       LIMIT ?`,
+      [...values, query.limit]
+    );
+
+    return rows.map(row => {
+      const entry = row as {
+        Id: number;
+        Timestamp: string;
+        Actor: string | null;
+        UserId: string | null;
+        ApiKeyId: string | null;
+        Action: string;
+        Object: string | null;
+        VersionId: string | null;
+        IpAddress: string | null;
+        Outcome: string;
+        StatusCode: number;
+      };
+
+      return {
+        id: entry.Id,
+        timestamp: entry.Timestamp,
+        actor: entry.Actor || undefined,
+        userId: entry.UserId || undefined,
+        apiKeyId: entry.ApiKeyId || undefined,
+        action: entry.Action,
+        object: entry.Object || undefined,
+        versionId: entry.VersionId || undefined,
+        ipAddress: entry.IpAddress || undefined,
+        outcome: entry.Outcome as AuditOutcome,
+        statusCode: entry.StatusCode
+      };
+    });
+  }
+
+  // Upload session methods
+  async createUploadSession(session: Omit<UploadSession, 'parts'>): Promise<UploadSession> {
+    await this.runQuery(
+      `INSERT INTO UploadSessions (Id, FileName, Bucket, UploadId, ContentType, Tags, Metadata, UserId, CreatedBy, CreatedAt, ExpiresAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.fileName,
+        session.bucket,
+        session.uploadId,
+        session.contentType,
+        JSON.stringify(session.tags),
+        JSON.stringify(session.metadata),
+        session.userId,
+        session.createdBy,
+        session.createdAt,
+        session.expiresAt
+      ]
+    );
+
+    return { ...session, parts: [] };
+  }
+
+  async getUploadSessionById(id: string): Promise<UploadSession | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM UploadSessions WHERE Id = ?', [id]);
+
+    if (!row) return null;
+
+    const [session] = await this.attachUploadedParts([this.mapUploadSession(row)]);
+    return session;
+  }
+
+  async getUploadSessionsForUser(userId: string): Promise<UploadSession[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM UploadSessions WHERE UserId = ? ORDER BY CreatedAt DESC', [userId]);
+
+    return this.attachUploadedParts(rows.map(row => this.mapUploadSession(row)));
+  }
+
+  async getExpiredUploadSessions(now: string): Promise<UploadSession[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM UploadSessions WHERE ExpiresAt <= ?', [now]);
+
+    return rows.map(row => this.mapUploadSession(row));
+  }
+
+  async saveUploadedPart(sessionId: string, part: UploadedPart, expiresAt: string): Promise<void> {
+    // Re-sending a part replaces it, as it does in MinIO
+    await this.runQuery(
+      `INSERT INTO UploadSessionParts (SessionId, PartNumber, ETag, Size, UploadedAt) 
+       VALUES (?, ?, ?, ?, ?) 
+       ON CONFLICT (SessionId, PartNumber) DO UPDATE SET ETag = excluded.ETag, Size = excluded.Size, UploadedAt = excluded.UploadedAt`,
+      [sessionId, part.partNumber, part.etag, part.size, part.uploadedAt]
+    );
+    await this.runQuery('UPDATE UploadSessions SET ExpiresAt = ? WHERE Id = ?', [expiresAt, sessionId]);
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    await this.runQuery('DELETE FROM UploadSessionParts WHERE SessionId = ?', [id]);
+    const result = await this.runQuery('DELETE FROM UploadSessions WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  private async attachUploadedParts(sessions: UploadSession[]): Promise<UploadSession[]> {
+    if (sessions.length === 0) {
+      return sessions;
+    }
+
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const rows = await all(
+      `SELECT * FROM UploadSessionParts WHERE SessionId IN (${sessions.map(() => '?').join(', ')}) ORDER BY PartNumber`,
+      sessions.map(session => session.id)
+    );
+
+    for (const row of rows) {
+      const part = row as { SessionId: string; PartNumber: number; ETag: string; Size: number; UploadedAt: string };
+      sessions.find(session => session.id === part.SessionId)?.parts.push({
+        partNumber: part.PartNumber,
+        etag: part.ETag,
+        size: part.Size,
+        uploadedAt: part.UploadedAt
+      });
+    }
+
+    return sessions;
+  }
+
+  private mapUploadSession(row: unknown): UploadSession {
+    const session = row as {
+      Id: string;
+      FileName: string;
+      Bucket: string;
+      UploadId: string;
+      ContentType: string;
+      Tags: string;
+      Metadata: string;
+      UserId: string;
+      CreatedBy: string;
+      CreatedAt: string;
+      ExpiresAt: string;
+    };
+
+    return {
+      id: session.Id,
+      fileName: session.FileName,
+      bucket: session.Bucket,
+      uploadId: session.UploadId,
+      contentType: session.ContentType,
+      tags: JSON.parse(session.Tags),
+      metadata: JSON.parse(session.Metadata),
+      userId: session.UserId,
+      createdBy: session.CreatedBy,
+      createdAt: session.CreatedAt,
+      expiresAt: session.ExpiresAt,
+      parts: []
+    };
+  }
+
+  // Recycle bin methods
+  async createDeletedFile(file: DeletedFile): Promise<DeletedFile> {
+    await this.runQuery(
+      `INSERT INTO DeletedFiles (Id, Bucket, FileName, Size, ETag, VersionId, ContentType, Tags, DeleteMarkerVersionId, RecycleKey, DeletedBy, DeletedAt, ExpiresAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        file.id,
+        file.bucket,
+        file.fileName,
+        file.size,
+        file.etag,
+        file.versionId || null,
+        file.contentType || null,
+        JSON.stringify(file.tags),
+        file.deleteMarkerVersionId || null,
+        file.recycleKey || null,
+        file.deletedBy,
+        file.deletedAt,
+        file.expiresAt
+      ]
+    );
+
+    return file;
+  }
+
+  async getDeletedFileById(id: string): Promise<DeletedFile | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get('SELECT * FROM DeletedFiles WHERE Id = ?', [id]);
+
+    return row ? this.mapDeletedFile(row) : null;
+  }
+
+  async getDeletedFiles(buckets: string[], query: DeletedFileQuery = {}): Promise<DeletedFile[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const conditions = [`Bucket IN (${buckets.map(() => '?').join(', ')})`];
+    const values: unknown[] = [...buckets];
+
+    if (query.prefix) {
+      conditions.push('substr(FileName, 1, ?) = ?');
+      values.push(query.prefix.length, query.prefix);
+    }
+
+    if (query.deletedBy) {
+      conditions.push('DeletedBy = ?');
+      values.push(query.deletedBy);
+    }
+    
+    const rows = await all(
+      `SELECT * FROM DeletedFiles WHERE ${conditions.join(' AND ')} ORDER BY DeletedAt DESC, FileName`,
+      values
+    );
+
+    return rows.map(row => this.mapDeletedFile(row));
+  }
+
+  async getDeletedFilesForObject(bucket: string, fileName: string): Promise<DeletedFile[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      'SELECT * FROM DeletedFiles WHERE Bucket = ? AND FileName = ? ORDER BY DeletedAt DESC',
+      [bucket, fileName]
+    );
+
+    return rows.map(row => this.mapDeletedFile(row));
+  }
+
+  async getExpiredDeletedFiles(now: string): Promise<DeletedFile[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM DeletedFiles WHERE ExpiresAt <= ? ORDER BY ExpiresAt', [now]);
+
+    return rows.map(row => this.mapDeletedFile(row));
+  }
+
+  async deleteDeletedFile(id: string): Promise<boolean> {
+    const result = await this.runQuery('DELETE FROM DeletedFiles WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  private mapDeletedFile(row: unknown): DeletedFile {
+    const file = row as {
+      Id: string;
+      Bucket: string;
+      FileName: string;
+      Size: number;
+      ETag: string;
+      VersionId: string | null;
+      ContentType: string | null;
+      Tags: string;
+      DeleteMarkerVersionId: string | null;
+      RecycleKey: string | null;
+      DeletedBy: string;
+      DeletedAt: string;
+      ExpiresAt: string;
+    };
+
+    return {
+      id: file.Id,
+      bucket: file.Bucket,
+      fileName: file.FileName,
+      size: file.Size,
+      etag: file.ETag,
+      versionId: file.VersionId || undefined,
+      contentType: file.ContentType || undefined,
+      tags: JSON.parse(file.Tags),
+      deleteMarkerVersionId: file.DeleteMarkerVersionId || undefined,
+      recycleKey: file.RecycleKey || undefined,
+      deletedBy: file.DeletedBy,
+      deletedAt: file.DeletedAt,
+      expiresAt: file.ExpiresAt
+    };
+  }
+
+  // Tag methods
+  async createTag(name: string): Promise<Tag> {
+    const result = await this.runQuery(
+      'INSERT INTO PreDefinedTags (Name) VALUES (?)',
+      [name]
+    );
+
+    return {
+      id: result.lastID,
+      name
+    };
+  }
+
+  async getAllTags(): Promise<Tag[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM PreDefinedTags');
+
+    return rows.map(row => {
+      const tag = row as { Id: number; Name: string };
+      return {
+        id: tag.Id,
+        name: tag.Name
+      };
+    });
+  }
+
+  async getTagById(id: number): Promise<Tag | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM PreDefinedTags WHERE Id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    const tag = row as { Id: number; Name: string };
+    return {
+      id: tag.Id,
+      name: tag.Name
+    };
+  }
+
+  async updateTag(id: number, name: string): Promise<boolean> {
+    const result = await this.runQuery('UPDATE PreDefinedTags SET Name = ? WHERE Id = ?', [name, id]);
+    return result.changes > 0;
+  }
+
+  async getTagByName(name: string): Promise<Tag | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM PreDefinedTags WHERE Name = ?',
+      [name]
+    );
+
+    if (!row) return null;
+
+    const tag = row as { Id: number; Name: string };
+    return {
+      id: tag.Id,
+      name: tag.Name
+    };
+  }
+
+  async deleteTag(id: number): Promise<boolean> {
+    const result = await this.runQuery('DELETE FROM PreDefinedTags WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  // Tag category methods
+  async createTagCategory(name: string, allowedValues: string[]): Promise<TagCategory> {
+    const result = await this.runQuery(
+      'INSERT INTO TagCategories (Name, AllowedValues) VALUES (?, ?)',
+      [name, JSON.stringify(allowedValues)]
+    );
+
+    return {
+      id: result.lastID,
+      name,
+      allowedValues
+    };
+  }
+
+  async getAllTagCategories(): Promise<TagCategory[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT * FROM TagCategories ORDER BY Name');
+
+    return rows.map(row => this.mapTagCategory(row));
+  }
+
+  async getTagCategoryById(id: number): Promise<TagCategory | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM TagCategories WHERE Id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapTagCategory(row);
+  }
+
+  async updateTagCategory(id: number, allowedValues: string[]): Promise<boolean> {
+    const result = await this.runQuery(
+      'UPDATE TagCategories SET AllowedValues = ? WHERE Id = ?',
+      [JSON.stringify(allowedValues), id]
+    );
+    return result.changes > 0;
+  }
+
+  async deleteTagCategory(id: number): Promise<boolean> {
+    const result = await this.runQuery('DELETE FROM TagCategories WHERE Id = ?', [id]);
+    return result.changes > 0;
+  }
+
+  private mapTagCategory(row: unknown): TagCategory {
+    const category = row as { Id: number; Name: string; AllowedValues: string };
+    return {
+      id: category.Id,
+      name: category.Name,
+      allowedValues: JSON.parse(category.AllowedValues)
+    };
+  }
+
+  // Promotion request methods
+  async createPromotionRequest(request: Omit<PromotionRequest, 'id'>): Promise<PromotionRequest> {
+    const result = await this.runQuery(
+      `INSERT INTO PromotionRequests (FileName, VersionId, ETag, ReleaseNote, Status, RequestedBy, RequestedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [request.fileName, request.versionId, request.etag, request.releaseNote, request.status, request.requestedBy, request.requestedAt]
+    );
+
+    return { id: result.lastID, ...request };
+  }
+
+  async getPromotionRequestById(id: number): Promise<PromotionRequest | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM PromotionRequests WHERE Id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapPromotionRequest(row);
+  }
+
+  async getPromotionRequests(status?: PromotionStatus, requestedBy?: string): Promise<PromotionRequest[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const conditions = [];
+    const values = [];
+
+    if (status) {
+      conditions.push('Status = ?');
+      values.push(status);
+    }
+    if (requestedBy) {
+      conditions.push('RequestedBy = ?');
+      values.push(requestedBy);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await all(`SELECT * FROM PromotionRequests ${where} ORDER BY RequestedAt DESC`, values);
+
+    return rows.map(row => this.mapPromotionRequest(row));
+  }
+
+  async getPendingPromotionRequestForFile(fileName: string): Promise<PromotionRequest | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM PromotionRequests WHERE FileName = ? AND Status = ?',
+      [fileName, PromotionStatus.Pending]
+    );
+
+    if (!row) return null;
+
+    return this.mapPromotionRequest(row);
+  }
+
+  async completePromotionRequest(
+    id: number,
+    status: PromotionStatus,
+    reviewedBy: string,
+    reviewComment?: string,
+    stableVersionId?: string
+  ): Promise<boolean> {
+    // Only pending requests can be reviewed, which also guards against concurrent approvals
+    const result = await this.runQuery(
+      `UPDATE PromotionRequests SET Status = ?, ReviewedBy = ?, ReviewedAt = ?, ReviewComment = ?, StableVersionId = ?
+       WHERE Id = ? AND Status = ?`,
+      [status, reviewedBy, new Date().toISOString(), reviewComment, stableVersionId, id, PromotionStatus.Pending]
+    );
+
+    return result.changes > 0;
+  }
+
+  async setPromotionStableVersion(id: number, stableVersionId: string | undefined): Promise<void> {
+    await this.runQuery('UPDATE PromotionRequests SET StableVersionId = ? WHERE Id = ?', [stableVersionId, id]);
+  }
+
+  // Undoes an approval whose copy to stable failed, so the request can be reviewed again
+  async reopenPromotionRequest(id: number): Promise<boolean> {
+    const result = await this.runQuery(
+      `UPDATE PromotionRequests SET Status = ?, ReviewedBy = NULL, ReviewedAt = NULL, ReviewComment = NULL, StableVersionId = NULL
+       WHERE Id = ? AND Status = ?`,
+      [PromotionStatus.Pending, id, PromotionStatus.Approved]
+    );
+
+    return result.changes > 0;
+  }
+
+  private mapPromotionRequest(row: unknown): PromotionRequest {
+    const request = row as {
+      Id: number;
+      FileName: string;
+      VersionId: string | null;
+      ETag: string | null;
+      ReleaseNote: string;
+      Status: string;
+      RequestedBy: string;
+      RequestedAt: string;
+      ReviewedBy: string | null;
+      ReviewedAt: string | null;
+      ReviewComment: string | null;
+      StableVersionId: string | null;
+    };
+
+    return {
+      id: request.Id,
+      fileName: request.FileName,
+      versionId: request.VersionId || undefined,
+      etag: request.ETag || undefined,
+      releaseNote: request.ReleaseNote,
+      status: request.Status as PromotionStatus,
+      requestedBy: request.RequestedBy,
+      requestedAt: request.RequestedAt,
+      reviewedBy: request.ReviewedBy || undefined,
+      reviewedAt: request.ReviewedAt || undefined,
+      reviewComment: request.ReviewComment || undefined,
+      stableVersionId: request.StableVersionId || undefined
+    };
+  }
+
+  // Sign-off methods
+  async createSignOff(signOff: Omit<SignOff, 'id'>): Promise<SignOff> {
+    const result = await this.runQuery(
+      `INSERT INTO SignOffs (FileName, VersionId, ETag, Type, SignedBy, SignedAt, Comment, IsValid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [signOff.fileName, signOff.versionId, signOff.etag, signOff.type, signOff.signedBy, signOff.signedAt, signOff.comment, signOff.isValid ? 1 : 0]
+    );
+
+    return { id: result.lastID, ...signOff };
+  }
+
+  async getSignOffsForFile(fileName: string): Promise<SignOff[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      'SELECT * FROM SignOffs WHERE FileName = ? ORDER BY SignedAt DESC',
+      [fileName]
+    );
+
+    return rows.map(row => this.mapSignOff(row));
+  }
+
+  async getValidSignOffsForFiles(fileNames: string[]): Promise<SignOff[]> {
+    if (fileNames.length === 0) {
+      return [];
+    }
+
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const placeholders = fileNames.map(() => '?').join(', ');
+    
+    const rows = await all(
+      `SELECT * FROM SignOffs WHERE IsValid = 1 AND FileName IN (${placeholders}) ORDER BY SignedAt DESC`,
+      fileNames
+    );
+
+    return rows.map(row => this.mapSignOff(row));
+  }
+
+  async invalidateSignOffs(fileName: string, keepETags: string[]): Promise<number> {
+    const placeholders = keepETags.map(() => '?').join(', ');
+    const etagFilter = keepETags.length > 0 ? `AND ETag NOT IN (${placeholders})` : '';
+
+    const result = await this.runQuery(
+      `UPDATE SignOffs SET IsValid = 0, InvalidatedAt = ? WHERE FileName = ? AND IsValid = 1 ${etagFilter}`,
+      [new Date().toISOString(), fileName, ...keepETags]
+    );
+
+    return result.changes;
+  }
+
+  private mapSignOff(row: unknown): SignOff {
+    const signOff = row as {
+      Id: number;
+      FileName: string;
+      VersionId: string | null;
+      ETag: string;
+      Type: string;
+      SignedBy: string;
+      SignedAt: string;
+      Comment: string;
+      IsValid: number;
+      InvalidatedAt: string | null;
+    };
+
+    return {
+      id: signOff.Id,
+      fileName: signOff.FileName,
+      versionId: signOff.VersionId || undefined,
+      etag: signOff.ETag,
+      type: signOff.Type as SignOffType,
+      signedBy: signOff.SignedBy,
+      signedAt: signOff.SignedAt,
+      comment: signOff.Comment,
+      isValid: signOff.IsValid === 1,
+      invalidatedAt: signOff.InvalidatedAt || undefined
+    };
+  }
+
+  // Object index methods
+  async upsertIndexedObject(entry: IndexedObject): Promise<void> {
+    await this.runQuery(
+      `INSERT INTO ObjectIndex (Bucket, FileName, Size, LastModified, ETag, VersionId, ContentType, Category, CreatedBy, Metadata, IndexedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (Bucket, FileName) DO UPDATE SET
+         Size = excluded.Size,
+         LastModified = excluded.LastModified,
+         ETag = excluded.ETag,
+         VersionId = excluded.VersionId,
+         ContentType = excluded.ContentType,
+         Category = excluded.Category,
+         CreatedBy = excluded.CreatedBy,
+         Metadata = excluded.Metadata,
+         IndexedAt = excluded.IndexedAt`,
+      [
+        entry.bucket,
+        entry.fileName,
+        entry.size,
+        entry.lastModified,
+        entry.etag,
+        entry.versionId,
+        entry.contentType,
+        entry.metadata['category'],
+        entry.metadata['created-by'],
+        JSON.stringify(entry.metadata),
+        new Date().toISOString()
+      ]
+    );
+
+    await this.setIndexedObjectTags(entry.bucket, entry.fileName, entry.tags);
+  }
+
+  async setIndexedObjectTags(bucket: string, fileName: string, tags: string[]): Promise<void> {
+    await this.runQuery('DELETE FROM ObjectTags WHERE Bucket = ? AND FileName = ?', [bucket, fileName]);
+
+    for (const [position, tag] of tags.entries()) {
+      await this.runQuery(
+        'INSERT INTO ObjectTags (Bucket, FileName, Position, Tag) VALUES (?, ?, ?, ?)',
+        [bucket, fileName, position, tag]
+      );
+    }
+  }
+
+  async setIndexedObjectContent(bucket: string, fileName: string, content: string | null): Promise<void> {
+    await this.runQuery('DELETE FROM ObjectContent WHERE Bucket = ? AND FileName = ?', [bucket, fileName]);
+
+    if (content !== null) {
+      await this.runQuery(
+        'INSERT INTO ObjectContent (Bucket, FileName, Content) VALUES (?, ?, ?)',
+        [bucket, fileName, content]
+      );
+    }
+  }
+
+  async getIndexedContentFileNames(bucket: string): Promise<Set<string>> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all('SELECT FileName FROM ObjectContent WHERE Bucket = ?', [bucket]);
+
+    return new Set(rows.map(row => (row as { FileName: string }).FileName));
+  }
+
+  async searchIndexedContent(
+    buckets: string[],
+    matchExpression: string,
+    limit: number,
+    tagExpression?: TagExpression,
+    hiddenPaths: HiddenPath[] = []
+  ): Promise<IndexedContentMatch[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const placeholders = buckets.map(() => '?').join(', ');
+    const tagValues: unknown[] = [];
+    const tagCondition = tagExpression ? `AND ${this.buildTagCondition(tagExpression, tagValues)}` : '';
+    const accessConditions = this.buildAccessConditions(hiddenPaths, tagValues);
+    const accessCondition = accessConditions.map(condition => `AND ${condition}`).join(' ');
+    
+    const rows = await all(
+      `SELECT o.*, snippet(ObjectContent, 2, '<mark>', '</mark>', '…', 16) AS Snippet, bm25(ObjectContent) AS Rank
+       FROM ObjectContent
+       JOIN ObjectIndex o ON o.Bucket = ObjectContent.Bucket AND o.FileName = ObjectContent.FileName
+       WHERE ObjectContent MATCH ? AND ObjectContent.Bucket IN (${placeholders}) ${tagCondition} ${accessCondition}
+       ORDER BY Rank
+       LIMIT ?`,
+      [matchExpression, ...buckets, ...tagValues, limit]
+    );
+
+    const entries = await this.attachIndexedTags(rows.map(row => this.mapIndexedObject(row)));
+
+    return rows.map((row, index) => {
+      const match = row as { Snippet: string; Rank: number };
+      // bm25() scores are negative with the best match lowest; flip them so higher means more relevant
+      return { entry: entries[index], snippet: match.Snippet, rank: -match.Rank };
+    });
+  }
+
+  async getTagUsage(): Promise<{ tag: string; bucket: string; count: number; lastUsed: string }[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      `SELECT t.Tag, t.Bucket, COUNT(DISTINCT t.FileName) AS Count, MAX(o.LastModified) AS LastUsed
+       FROM ObjectTags t
+       JOIN ObjectIndex o ON o.Bucket = t.Bucket AND o.FileName = t.FileName
+       GROUP BY t.Tag, t.Bucket`
+    );
+
+    return rows.map(row => {
+      const usage = row as { Tag: string; Bucket: string; Count: number; LastUsed: string };
+      return { tag: usage.Tag, bucket: usage.Bucket, count: usage.Count, lastUsed: usage.LastUsed };
+    });
+  }
+
+  async getIndexedObjectsWithTag(tag: string): Promise<{ bucket: string; fileName: string }[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    
+    const rows = await all(
+      'SELECT DISTINCT Bucket, FileName FROM ObjectTags WHERE Tag = ? ORDER BY Bucket, FileName',
+      [tag]
+    );
+
+    return rows.map(row => {
+      const entry = row as { Bucket: string; FileName: string };
+      return { bucket: entry.Bucket, fileName: entry.FileName };
+    });
+  }
+
+  async removeIndexedObject(bucket: string, fileName: string): Promise<boolean> {
+    await this.runQuery('DELETE FROM ObjectTags WHERE Bucket = ? AND FileName = ?', [bucket, fileName]);
+    await this.runQuery('DELETE FROM ObjectContent WHERE Bucket = ? AND FileName = ?', [bucket, fileName]);
+    const result = await this.runQuery('DELETE FROM ObjectIndex WHERE Bucket = ? AND FileName = ?', [bucket, fileName]);
+    return result.changes > 0;
+  }
+
+  async getIndexedObject(bucket: string, fileName: string): Promise<IndexedObject | null> {
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+    
+    const row = await get(
+      'SELECT * FROM ObjectIndex WHERE Bucket = ? AND FileName = ?',
+      [bucket, fileName]
+    );
+
+    if (!row) return null;
+
+    const [entry] = await this.attachIndexedTags([this.mapIndexedObject(row)]);
+    return entry;
+  }
+
+  async getIndexedObjects(buckets: string[], prefix = '', hiddenPaths: HiddenPath[] = []): Promise<IndexedObject[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const conditions = [`Bucket IN (${buckets.map(() => '?').join(', ')})`, 'substr(FileName, 1, ?) = ?'];
+    const values: unknown[] = [...buckets, prefix.length, prefix];
+    conditions.push(...this.buildAccessConditions(hiddenPaths, values));
+    
+    const rows = await all(
+      `SELECT * FROM ObjectIndex o WHERE ${conditions.join(' AND ')} ORDER BY FileName`,
+      values
+    );
+
+    return this.attachIndexedTags(rows.map(row => this.mapIndexedObject(row)));
+  }
+
+  async queryIndexedObjects(
+    buckets: string[],
+    query: FileQuery,
+    cursorKey?: (string | number)[],
+    hiddenPaths: HiddenPath[] = []
+  ): Promise<{ items: IndexedObject[]; total: number; hasMore: boolean }> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const get = promisify(this.db.get.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown>;
+
+    // Folder markers are not files
+    const conditions = [`Bucket IN (${buckets.map(() => '?').join(', ')})`, `substr(FileName, -1) <> '/'`];
+    const values: unknown[] = [...buckets];
+
+    if (query.prefix) {
+      conditions.push('substr(FileName, 1, ?) = ?');
+      values.push(query.prefix.length, query.prefix);
+    }
+    if (query.category) {
+      conditions.push('LOWER(Category) = LOWER(?)');
+      values.push(query.category);
+    }
+    if (query.contentType) {
+      conditions.push('substr(ContentType, 1, ?) = ?');
+      values.push(query.contentType.length, query.contentType);
+    }
+    if (query.createdBy) {
+      conditions.push('CreatedBy = ?');
+      values.push(query.createdBy);
+    }
+    if (query.modifiedAfter) {
+      conditions.push('LastModified >= ?');
+      values.push(query.modifiedAfter);
+    }
+    if (query.modifiedBefore) {
+      conditions.push('LastModified <= ?');
+      values.push(query.modifiedBefore);
+    }
+    for (const tag of query.tags || []) {
+      conditions.push('EXISTS (SELECT 1 FROM ObjectTags t WHERE t.Bucket = o.Bucket AND t.FileName = o.FileName AND t.Tag = ?)');
+      values.push(tag);
+    }
+    conditions.push(...this.buildAccessConditions(hiddenPaths, values));
+
+    const countRow = await get(
+      `SELECT COUNT(*) AS Total FROM ObjectIndex o WHERE ${conditions.join(' AND ')}`,
+      values
+    ) as { Total: number };
+
+    const sortColumns: Record<FileQuery['sortBy'], string[]> = {
+      lastModified: ['LastModified', 'FileName', 'ETag'],
+      size: ['Size', 'FileName', 'ETag'],
+      name: ['FileName', 'ETag'],
+      createdBy: [`COALESCE(CreatedBy, '')`, 'FileName', 'ETag']
+    };
+    const columns = sortColumns[query.sortBy];
+    const direction = query.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const pageConditions = [...conditions];
+    const pageValues = [...values];
+
+    if (cursorKey) {
+      // Keyset pagination on the full sort key keeps pages stable while objects change
+      pageConditions.push(`(${columns.join(', ')}) ${direction === 'DESC' ? '<' : '>'} (${columns.map(() => '?').join(', ')})`);
+      pageValues.push(...cursorKey);
+    }
+
+    const rows = await all(
+      `SELECT * FROM ObjectIndex o WHERE ${pageConditions.join(' AND ')}
+       ORDER BY ${columns.map(column => `${column} ${direction}`).join(', ')}
+       LIMIT ?`,
+      [...pageValues, query.limit + 1]
+    );
+
+    const items = await this.attachIndexedTags(rows.slice(0, query.limit).map(row => this.mapIndexedObject(row)));
+
+    return { items, total: countRow.Total, hasMore: rows.length > query.limit };
+  }
+
+  async queryIndexedObjectsByTags(
+    buckets: string[],
+    expression: TagExpression,
+    limit: number,
+    hiddenPaths: HiddenPath[] = []
+  ): Promise<IndexedObject[]> {
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const values: unknown[] = [...buckets];
+    const conditions = [this.buildTagCondition(expression, values), ...this.buildAccessConditions(hiddenPaths, values)];
+    
+    const rows = await all(
+      `SELECT * FROM ObjectIndex o
+       WHERE Bucket IN (${buckets.map(() => '?').join(', ')}) AND substr(FileName, -1) <> '/' AND ${conditions.join(' AND ')}
+       ORDER BY FileName
+       LIMIT ?`,
+      [...values, limit]
+    );
+
+    return this.attachIndexedTags(rows.map(row => this.mapIndexedObject(row)));
+  }
+
+  private buildTagCondition(expression: TagExpression, values: unknown[]): string {
+    switch (expression.type) {
+      case 'tag':
+        values.push(expression.name);
+        return 'EXISTS (SELECT 1 FROM ObjectTags t WHERE t.Bucket = o.Bucket AND t.FileName = o.FileName AND t.Tag = ?)';
+      case 'not':
+        return `NOT ${this.buildTagCondition(expression.operand, values)}`;
+      default: {
+        const left = this.buildTagCondition(expression.left, values);
+        const right = this.buildTagCondition(expression.right, values);
+        return `(${left} ${expression.type.toUpperCase()} ${right})`;
+      }
+    }
+  }
+
+  // One NOT (...) condition per hidden path, matching the prefix semantics of utils/access
+  private buildAccessConditions(hiddenPaths: HiddenPath[], values: unknown[]): string[] {
+    const matchPath = (pathPrefix: string): string => {
+      if (pathPrefix.endsWith('/')) {
+        values.push(pathPrefix.length, pathPrefix);
+        return 'substr(o.FileName, 1, ?) = ?';
+      }
+      values.push(pathPrefix);
+      return 'o.FileName = ?';
+    };
+
+    return hiddenPaths.map(hidden => {
+      const terms = [matchPath(hidden.pathPrefix), ...hidden.except.map(except => `NOT ${matchPath(except)}`)];
+      return `NOT (${terms.join(' AND ')})`;
+    });
+  }
+
+  private async attachIndexedTags(entries: IndexedObject[]): Promise<IndexedObject[]> {
+    if (entries.length === 0) {
+      return entries;
+    }
+
+    const all = promisify(this.db.all.bind(this.db)) as (sql: string, params?: unknown[]) => Promise<unknown[]>;
+    const buckets = [...new Set(entries.map(entry => entry.bucket))];
+    const fileNames = [...new Set(entries.map(entry => entry.fileName))];
+    const rows: unknown[] = [];
+
+    // Every tag of a file lands in the same chunk, so each file's tags stay in order
+    for (let start = 0; start < fileNames.length; start += MAX_IN_LIST_SIZE) {
+      const chunk = fileNames.slice(start, start + MAX_IN_LIST_SIZE);
+      rows.push(...await all(
+        `SELECT * FROM ObjectTags
+         WHERE Bucket IN (${buckets.map(() => '?').join(', ')}) AND FileName IN (${chunk.map(() => '?').join(', ')})
+         ORDER BY Position`,
+        [...buckets, ...chunk]
+      ));
+    }
+
+    const tagsByObject = new Map<string, string[]>();
+    for (const row of rows) {
+      const tag = row as { Bucket: string; FileName: string; Tag: string };
+      const key = `${tag.Bucket}/${tag.FileName}`;
+      tagsByObject.set(key, [...(tagsByObject.get(key) || []), tag.Tag]);
+    }
+
+    return entries.map(entry => ({ ...entry, tags: tagsByObject.get(`${entry.bucket}/${entry.fileName}`) || [] }));
+  }
+
+  private mapIndexedObject(row: unknown): IndexedObject {
+    const entry = row as {
+      Bucket: string;
+      FileName: string;
+      Size: number;
+      LastModified: string;
+      ETag: string;
+      VersionId: string | null;
+      ContentType: string | null;
+      Metadata: string;
+    };
+
+    return {
+      bucket: entry.Bucket,
+      fileName: entry.FileName,
+      size: entry.Size,
+      lastModified: entry.LastModified,
+      etag: entry.ETag,
+      versionId: entry.VersionId || undefined,
+      contentType: entry.ContentType || undefined,
+      metadata: JSON.parse(entry.Metadata),
+      tags: []
+    };
+  }
+
   async close(): Promise<void> {
     const close = promisify(this.db.close.bind(this.db));
     await close();
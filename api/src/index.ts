@@ -6,20 +6,47 @@ import { Database } from './database';
 import { 
   BlobStorageService, 
   UserService, 
-  TagsService 
+  TagsService,
+  PromotionService,
+  SignOffService,
+  OidcService,
+  SamlService,
+  SessionService,
+  ApiKeyService,
+  UserTokenService,
+  RegistrationService,
+  LoginThrottleService,
+  TwoFactorService,
+  AccessControlService,
+  AuditService,
+  UploadSessionService,
+  createMailer
 } from './services';
 import {
   AuthController,
   AuthInfoController,
   BlobStorageController,
   TagsController,
-  UserController
+  UserController,
+  PromotionController,
+  SignOffController,
+  OidcController,
+  SamlController,
+  ApiKeyController,
+  RegistrationController,
+  TwoFactorController,
+  AccessControlController,
+  AuditController,
+  UploadSessionController
 } from './controllers';
-import { AuthMiddleware } from './middleware';
+import { AuthMiddleware, AuditMiddleware } from './middleware';
 import { JwtService, PasswordService } from './utils';
 import { createRoutes } from './routes';
 import { loadConfig } from './config';
 
+const UPLOAD_SESSION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const RECYCLE_BIN_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
 // Configure logging
 const logger = winston.createLogger({
   level: 'info',
@@ -79,12 +106,26 @@ async function initializeMinIOBuckets(blobStorageService: BlobStorageService, lo
       if (!exists) {
         logger.info(`Creating bucket: ${bucketName}`);
         await blobStorageService.createBucket(bucketName);
-        await blobStorageService.enableVersioning(bucketName);
-        logger.info(`Bucket ${bucketName} created with versioning enabled`);
+        
+        try {
+          await blobStorageService.enableVersioning(bucketName);
+          logger.info(`Bucket ${bucketName} created with versioning enabled`);
+        } catch (error) {
+          // Deleted files are then kept in the recycle bucket instead of behind delete markers
+          logger.warn(`Bucket ${bucketName} created without versioning, which this MinIO deployment does not support`);
+        }
       } else {
         logger.info(`Bucket ${bucketName} already exists`);
       }
     }
+    
+    // Holds deleted files from buckets without versioning until they are restored or purged
+    const recycleBucket = blobStorageService.getRecycleBucketName();
+    
+    if (!(await blobStorageService.bucketExists(recycleBucket))) {
+      logger.info(`Creating bucket: ${recycleBucket}`);
+      await blobStorageService.createBucket(recycleBucket);
+    }
   } catch (error) {
     logger.error('Failed to initialize MinIO buckets:', error);
     throw error;
@@ -109,14 +150,22 @@ async function initializeDefaultUser(userService: UserService, passwordService:
         passwordHash: hashedPassword,
         role: 3, // Admin role
         createdAt: new Date().toISOString(),
-        isActive: true
+        isActive: true,
+        mustChangePassword: true,
+        emailConfirmed: true
       };
       
       await userService.createUserForInit(adminUser);
       logger.info('Default admin user created (username: admin, password: admin123)');
-      logger.warn('SECURITY WARNING: Please change the default admin password immediately!');
+      logger.warn('SECURITY WARNING: The default admin password must be changed at first login');
     } else {
       logger.info('Default admin user already exists');
+      
+      // Databases created before forced password changes may still hold the bootstrap password
+      if (!existingAdmin.mustChangePassword && await passwordService.verifyPassword('admin123', existingAdmin.passwordHash)) {
+        await userService.updateUserAsync(existingAdmin.id, { mustChangePassword: true });
+        logger.warn('SECURITY WARNING: Default admin password is still in use; a password change will be required at next login');
+      }
     }
   } catch (error) {
     logger.error('Failed to initialize default user:', error);
@@ -158,6 +207,53 @@ async function initializeDefaultTags(database: Database, logger: winston.Logger)
   }
 }
 
+function reconcileMetadataIndex(blobStorageService: BlobStorageService, logger: winston.Logger): void {
+  logger.info('Reconciling metadata index...');
+  
+  blobStorageService.reconcileIndexAsync()
+    .then(result => {
+      logger.info(`Metadata index reconciled: ${result.scanned} scanned, ${result.updated} updated, ${result.removed} removed`);
+    })
+    .catch(error => {
+      logger.error('Failed to reconcile metadata index:', error);
+    });
+}
+
+function scheduleUploadSessionCleanup(uploadSessionService: UploadSessionService, logger: winston.Logger): void {
+  const cleanup = (): void => {
+    uploadSessionService.cleanupExpiredAsync()
+      .then(removed => {
+        if (removed > 0) {
+          logger.info(`Aborted ${removed} expired upload sessions`);
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to clean up upload sessions:', error);
+      });
+  };
+  
+  cleanup();
+  // The timer must not keep the process alive on shutdown
+  setInterval(cleanup, UPLOAD_SESSION_CLEANUP_INTERVAL_MS).unref();
+}
+
+function scheduleRecycleBinPurge(blobStorageService: BlobStorageService, logger: winston.Logger): void {
+  const purge = (): void => {
+    blobStorageService.purgeExpiredDeletedFilesAsync()
+      .then(purged => {
+        if (purged > 0) {
+          logger.info(`Purged ${purged} deleted files past their retention`);
+        }
+      })
+      .catch(error => {
+        logger.error('Failed to purge the recycle bin:', error);
+      });
+  };
+  
+  purge();
+  setInterval(purge, RECYCLE_BIN_PURGE_INTERVAL_MS).unref();
+}
+
 async function bootstrap() {
   try {
     // Load configuration
@@ -169,40 +265,104 @@ async function bootstrap() {
     const database = new Database(config.database.path);
     
     // Initialize services
-    const passwordService = new PasswordService();
+    const passwordService = new PasswordService(config.authentication.local.passwordPolicy);
     const jwtService = new JwtService(
       config.authentication.local.jwt.secret,
-      config.authentication.local.jwt.expiryInHours,
+      config.authentication.local.jwt.accessTokenExpiryInMinutes,
       config.authentication.local.jwt.issuer,
       config.authentication.local.jwt.audience
     );
     
-    const userService = new UserService(database, passwordService, jwtService);
-    const tagsService = new TagsService(database);
-    const blobStorageService = new BlobStorageService(config.minio);
+    const twoFactorService = new TwoFactorService(database, passwordService, config.authentication.local.twoFactor);
+    const sessionService = new SessionService(
+      database,
+      jwtService,
+      config.authentication.local.jwt.refreshTokenExpiryInDays,
+      twoFactorService
+    );
+    const userTokenService = new UserTokenService(database);
+    const userService = new UserService(database, passwordService, sessionService, userTokenService, twoFactorService);
+    const registrationService = new RegistrationService(
+      database,
+      passwordService,
+      sessionService,
+      userTokenService,
+      createMailer(config.mail),
+      config.authentication.local,
+      config.publicUrl
+    );
+    const loginThrottleService = new LoginThrottleService(database, config.authentication.local.lockout);
+    const apiKeyService = new ApiKeyService(database, twoFactorService);
+    const accessControlService = new AccessControlService(database);
+    const auditService = new AuditService(database);
+    const blobStorageService = new BlobStorageService(
+      config.minio,
+      database,
+      accessControlService,
+      config.recycleBin.retentionDays
+    );
+    const tagsService = new TagsService(database, blobStorageService, config.tags.enforceVocabulary);
+    const promotionService = new PromotionService(database, blobStorageService);
+    const signOffService = new SignOffService(database, blobStorageService);
+    const uploadSessionService = new UploadSessionService(database, blobStorageService, config.uploads.sessionExpiryHours);
+    const oidcService = new OidcService(config.authentication.oidc, userService, config.publicUrl);
+    const samlService = new SamlService(config.authentication.saml, userService, config.publicUrl);
     
     // Perform initialization checks and setup
     await initializeSystem(database, blobStorageService, userService, passwordService, logger);
     
+    // Rebuild the metadata index in the background so startup isn't blocked by a full bucket scan
+    reconcileMetadataIndex(blobStorageService, logger);
+    
+    // Abort upload sessions that clients have abandoned
+    scheduleUploadSessionCleanup(uploadSessionService, logger);
+    
+    // Purge deleted files once their retention has passed
+    scheduleRecycleBinPurge(blobStorageService, logger);
+    
     // Initialize middleware
-    const authMiddleware = new AuthMiddleware(jwtService);
+    const authMiddleware = new AuthMiddleware(sessionService, apiKeyService);
+    const auditMiddleware = new AuditMiddleware(auditService);
     
     // Initialize controllers
-    const authController = new AuthController(userService);
+    const authController = new AuthController(userService, sessionService, loginThrottleService);
     const authInfoController = new AuthInfoController(config.authentication);
-    const blobStorageController = new BlobStorageController(blobStorageService);
+    const blobStorageController = new BlobStorageController(
+      blobStorageService,
+      signOffService,
+      tagsService,
+      config.uploads.maxFileSizeBytes
+    );
     const tagsController = new TagsController(tagsService);
-    const userController = new UserController(userService);
+    const userController = new UserController(userService, sessionService, loginThrottleService);
+    const promotionController = new PromotionController(promotionService);
+    const signOffController = new SignOffController(signOffService);
+    const oidcController = new OidcController(oidcService);
+    const samlController = new SamlController(samlService);
+    const apiKeyController = new ApiKeyController(apiKeyService);
+    const registrationController = new RegistrationController(registrationService);
+    const twoFactorController = new TwoFactorController(twoFactorService);
+    const accessControlController = new AccessControlController(accessControlService, userService);
+    const auditController = new AuditController(auditService);
+    const uploadSessionController = new UploadSessionController(
+      uploadSessionService,
+      signOffService,
+      tagsService,
+      config.uploads.maxFileSizeBytes
+    );
     
     // Create Express app
     const app = express();
     
+    // Behind a reverse proxy, client addresses (used for login throttling) come from X-Forwarded-For
+    app.set('trust proxy', config.trustProxy);
+    
     // Configure middleware
     app.use(helmet());
     app.use(cors({
       origin: '*',
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
       credentials: false
     }));
     app.use(express.json({ limit: '50mb' }));
@@ -226,7 +386,18 @@ async function bootstrap() {
       blobStorageController,
       tagsController,
       userController,
-      authMiddleware
+      promotionController,
+      signOffController,
+      oidcController,
+      samlController,
+      apiKeyController,
+      registrationController,
+      twoFactorController,
+      accessControlController,
+      auditController,
+      uploadSessionController,
+      authMiddleware,
+      auditMiddleware
     );
     
     app.use(routes);
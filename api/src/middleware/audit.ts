@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditService } from '../services';
+import { AuditOutcome } from '../models';
+
+type AuditObjectResolver = (req: Request) => string | undefined;
+
+// Most routes name their object in the path; others pass a resolver
+const defaultObject: AuditObjectResolver = req =>
+  req.params.fileName || req.params.folderPath || req.params.userId || req.params.id;
+
+export class AuditMiddleware {
+  private auditService: AuditService;
+
+  constructor(auditService: AuditService) {
+    this.auditService = auditService;
+  }
+
+  /**
+   * Records the route's outcome once the response is sent. Register it before authentication
+   * so rejected calls are recorded too. Handlers that learn who the caller is without a user
+   * context (sign-in, token refresh, SSO callbacks) put the username in `res.locals.auditActor`;
+   * those that only find out which object they acted on put it in `res.locals.auditObject`, and
+   * bulk operations list every object they changed in `res.locals.auditObjects` to get an entry each.
+   */
+  record = (action: string, resolveObject: AuditObjectResolver = defaultObject) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+      res.on('finish', () => {
+        const versionId = req.params.versionId || (typeof req.body?.versionId === 'string' ? req.body.versionId : undefined);
+        const attemptedUsername = typeof req.body?.username === 'string' ? req.body.username : undefined;
+        const objects: (string | undefined)[] = Array.isArray(res.locals.auditObjects) && res.locals.auditObjects.length > 0
+          ? res.locals.auditObjects
+          : [res.locals.auditObject || resolveObject(req)];
+
+        for (const object of objects) {
+          this.auditService.recordAsync({
+            timestamp: new Date().toISOString(),
+            actor: req.userContext?.username || res.locals.auditActor || attemptedUsername,
+            userId: req.userContext?.userId,
+            apiKeyId: req.userContext?.apiKeyId,
+            action,
+            object,
+            versionId,
+            ipAddress: req.ip,
+            outcome: this.getOutcome(res.statusCode),
+            statusCode: res.statusCode
+          });
+        }
+      });
+
+      next();
+    };
+  };
+
+  private getOutcome(statusCode: number): AuditOutcome {
+    if (statusCode < 400) {
+      return AuditOutcome.Success;
+    }
+
+    return [401, 403, 429].includes(statusCode) ? AuditOutcome.Denied : AuditOutcome.Failure;
+  }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import { JwtService } from '../utils/jwt';
-import { UserRole, UserContext } from '../models';
+import { SessionService, ApiKeyService } from '../services';
+import { UserRole, UserContext, ApiKeyScope } from '../models';
 
 declare global {
   namespace Express {
@@ -11,36 +11,103 @@ declare global {
 }
 
 export class AuthMiddleware {
-  private jwtService: JwtService;
+  private sessionService: SessionService;
+  private apiKeyService: ApiKeyService;
 
-  constructor(jwtService: JwtService) {
-    this.jwtService = jwtService;
+  constructor(sessionService: SessionService, apiKeyService: ApiKeyService) {
+    this.sessionService = sessionService;
+    this.apiKeyService = apiKeyService;
   }
 
-  authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  // API keys are accepted for reads; routes that allow keys to write use authenticateWithScope
+  authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await this.authenticateRequest(req, res, next, this.getDefaultScope(req), false);
+  };
+
+  authenticateWithScope = (scope: ApiKeyScope) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      await this.authenticateRequest(req, res, next, scope, false);
+    };
+  };
+
+  // For the few routes a user who must change their password or enrol in two-factor authentication can still reach
+  authenticateForAccountSetup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    await this.authenticateRequest(req, res, next, this.getDefaultScope(req), true);
+  };
+
+  private getDefaultScope(req: Request): ApiKeyScope | undefined {
+    return req.method === 'GET' || req.method === 'HEAD' ? ApiKeyScope.Read : undefined;
+  }
+
+  private async authenticateRequest(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    apiKeyScope: ApiKeyScope | undefined,
+    allowPendingSetup: boolean
+  ): Promise<void> {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
     
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    let token: string;
+    if (typeof apiKeyHeader === 'string') {
+      token = apiKeyHeader;
+    } else if (authHeader && authHeader.startsWith('Bearer ')) {
+      token = authHeader.slice(7); // Remove 'Bearer ' prefix
+    } else {
       res.status(401).json({ message: 'Authorization header missing or invalid' });
       return;
     }
 
-    const token = authHeader.slice(7); // Remove 'Bearer ' prefix
-    const payload = this.jwtService.verifyToken(token);
+    try {
+      if (this.apiKeyService.isApiKey(token)) {
+        if (!apiKeyScope) {
+          res.status(403).json({ message: 'API keys cannot be used for this operation' });
+          return;
+        }
+
+        const userContext = await this.apiKeyService.validateAsync(token);
+
+        if (!userContext) {
+          res.status(401).json({ message: 'Invalid or expired API key' });
+          return;
+        }
+
+        if (!userContext.apiKeyScopes?.includes(apiKeyScope)) {
+          res.status(403).json({ message: `API key does not have the '${apiKeyScope}' scope` });
+          return;
+        }
 
-    if (!payload) {
-      res.status(401).json({ message: 'Invalid or expired token' });
+        req.userContext = userContext;
+      } else {
+        // Checks the session and user on every request so revocation and deactivation take effect immediately
+        const userContext = await this.sessionService.validateAccessTokenAsync(token);
+
+        if (!userContext) {
+          res.status(401).json({ message: 'Invalid or expired token' });
+          return;
+        }
+
+        req.userContext = userContext;
+      }
+    } catch (error) {
+      console.error('Error validating access token:', error);
+      res.status(500).json({ message: 'Internal server error' });
       return;
     }
 
-    req.userContext = {
-      userId: payload.userId,
-      username: payload.username,
-      role: payload.role as UserRole
-    };
+    if (req.userContext.mustChangePassword && !allowPendingSetup) {
+      res.status(403).json({ message: 'Password change required', passwordChangeRequired: true });
+      return;
+    }
+
+    if (req.userContext.twoFactorSetupRequired && !allowPendingSetup) {
+      res.status(403).json({ message: 'Two-factor authentication setup required', twoFactorSetupRequired: true });
+      return;
+    }
 
     next();
-  };
+  }
 
   requireRole = (requiredRole: UserRole) => {
     return (req: Request, res: Response, next: NextFunction): void => {
@@ -1 +1,3 @@
-export * from './auth';
\ No newline at end of file
+export * from './auth';
+export * from './audit';
+export * from './upload';
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { Request, RequestHandler, Response } from 'express';
+import multer, { MulterError } from 'multer';
+import { PassThrough } from 'stream';
+
+export class UploadError extends Error {
+  statusCode: number;
+  details?: Record<string, unknown>;
+
+  constructor(statusCode: number, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'UploadError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+}
+
+/**
+ * Receives the file part as a stream and returns the name it was stored under.
+ * Only form fields sent before the file are available in `req.body` at that point.
+ */
+export type UploadHandler = (req: Request, file: Express.Multer.File) => Promise<string>;
+
+// Hands the file part to the handler as it arrives instead of buffering it in memory or on disk
+class StreamingStorage implements multer.StorageEngine {
+  private handler: UploadHandler;
+
+  constructor(handler: UploadHandler) {
+    this.handler = handler;
+  }
+
+  _handleFile(req: Request, file: Express.Multer.File, callback: (error?: unknown, info?: Partial<Express.Multer.File>) => void): void {
+    const body = new PassThrough();
+    let size = 0;
+
+    // Busboy truncates oversized parts silently, so fail the stream to keep a cut-off file out of storage
+    file.stream.on('limit', () => body.destroy(new UploadError(413, 'File is too large')));
+    // The handler sees the error when it reads the body; without a listener it would crash the process if it hasn't started yet
+    body.on('error', () => undefined);
+    file.stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+    });
+    file.stream.pipe(body);
+
+    this.handler(req, { ...file, stream: body }).then(
+      fileName => callback(null, { path: fileName, size }),
+      error => {
+        // Drain whatever the handler didn't read so the rest of the request can be parsed
+        file.stream.unpipe(body);
+        file.stream.resume();
+        callback(error);
+      }
+    );
+  }
+
+  _removeFile(req: Request, file: Express.Multer.File, callback: (error: Error | null) => void): void {
+    callback(null);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${bytes} bytes`;
+}
+
+function runUpload(req: Request, res: Response, upload: RequestHandler, maxFileSizeBytes: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof MulterError) {
+        reject(error.code === 'LIMIT_FILE_SIZE'
+          ? new UploadError(413, `File exceeds the upload limit of ${formatBytes(maxFileSizeBytes)}`, { maxFileSizeBytes })
+          : new UploadError(400, error.message));
+        return;
+      }
+
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      resolve();
+    });
+  });
+}
+
+/**
+ * Parses a multipart upload with a single file in `fieldName`, streaming it through `handler`.
+ * Resolves to the received file with `path` set to its stored name, or null when there was no file.
+ */
+export async function receiveUploadAsync(
+  req: Request,
+  res: Response,
+  fieldName: string,
+  maxFileSizeBytes: number,
+  handler: UploadHandler
+): Promise<Express.Multer.File | null> {
+  const upload = multer({
+    storage: new StreamingStorage(handler),
+    // Busboy reports the limit as soon as a file reaches it, so allow one byte more for files of exactly the maximum
+    limits: { fileSize: maxFileSizeBytes + 1, files: 1 }
+  }).single(fieldName);
+
+  await runUpload(req, res, upload, maxFileSizeBytes);
+  return req.file || null;
+}
+
+/**
+ * Parses a multipart upload with up to `maxFiles` files in `fieldName`, streaming each through `handler`
+ * in the order they arrive. File names keep the relative path the client sent, e.g. for a folder upload.
+ * A file over the size limit fails the whole request; files received before it have already been handled.
+ */
+export async function receiveUploadsAsync(
+  req: Request,
+  res: Response,
+  fieldName: string,
+  maxFileSizeBytes: number,
+  maxFiles: number,
+  handler: UploadHandler
+): Promise<Express.Multer.File[]> {
+  const upload = multer({
+    storage: new StreamingStorage(handler),
+    preservePath: true,
+    limits: { fileSize: maxFileSizeBytes + 1, files: maxFiles }
+  }).array(fieldName, maxFiles);
+
+  await runUpload(req, res, upload, maxFileSizeBytes);
+  return (req.files as Express.Multer.File[] | undefined) || [];
+}
+
+/**
+ * Reads a raw request body into memory, rejecting it with a 413 once it grows past `maxBytes`.
+ * Only for bodies bounded by a small limit, such as a single part of an upload session.
+ */
+export function readRequestBodyAsync(req: Request, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer): void => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        // Keep reading so the response can still be delivered to the client
+        req.resume();
+        reject(new UploadError(413, `Body exceeds the limit of ${formatBytes(maxBytes)}`, { maxBytes }));
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+export enum FilePermission {
+  Read = 'read',
+  Write = 'write',
+  Delete = 'delete',
+  Promote = 'promote'
+}
+
+export interface GroupMember {
+  userId: string;
+  username: string;
+}
+
+export interface Group {
+  id: number;
+  name: string;
+  description?: string;
+  createdAt: string;
+  members: GroupMember[];
+}
+
+export interface AccessGrant {
+  id: number;
+  // Folder prefixes end with '/', anything else names a single file
+  pathPrefix: string;
+  groupId: number;
+  groupName: string;
+  permissions: FilePermission[];
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CreateGroupRequest {
+  name: string;
+  description?: string;
+}
+
+export interface AddGroupMemberRequest {
+  userId: string;
+}
+
+export interface CreateAccessGrantRequest {
+  pathPrefix: string;
+  groupId: number;
+  permissions: FilePermission[];
+}
+
+// Permissions one user holds on a restricted path, after the role ceiling is applied
+export interface PathAccessRule {
+  pathPrefix: string;
+  permissions: FilePermission[];
+}
+
+export interface PathAccess {
+  defaultPermissions: FilePermission[];
+  rules: PathAccessRule[];
+}
+
+// A path the user may not read, minus nested paths they may read again
+export interface HiddenPath {
+  pathPrefix: string;
+  except: string[];
+}
\ No newline at end of file
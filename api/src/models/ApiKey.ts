@@ -0,0 +1,35 @@
+export enum ApiKeyScope {
+  Read = 'read',     // GET requests on any route the owner can reach
+  Upload = 'upload'  // File uploads
+}
+
+export enum BucketScope {
+  Working = 'working',
+  Stable = 'stable'
+}
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  bucket?: BucketScope;
+  createdAt: string;
+  expiresAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export type ApiKeyInfo = Omit<ApiKey, 'keyHash'>;
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  bucket?: BucketScope;
+  expiresAt?: string;
+}
+
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string;
+}
\ No newline at end of file
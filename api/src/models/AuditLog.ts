@@ -0,0 +1,36 @@
+export enum AuditOutcome {
+  Success = 'success',
+  Denied = 'denied',
+  Failure = 'failure'
+}
+
+export interface AuditEntry {
+  id: number;
+  timestamp: string;
+  // Username of the authenticated caller, or the one a sign-in attempt named
+  actor?: string;
+  userId?: string;
+  apiKeyId?: string;
+  action: string;
+  object?: string;
+  versionId?: string;
+  ipAddress?: string;
+  outcome: AuditOutcome;
+  statusCode: number;
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string;
+  object?: string;
+  outcome?: AuditOutcome;
+  from?: string;
+  to?: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface AuditQueryResult {
+  items: AuditEntry[];
+  nextCursor?: string;
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { UserRole } from './User';
+
 export interface AuthConfig {
   provider: 'Local' | 'OIDC' | 'SAML';
   local: LocalAuthConfig;
@@ -10,16 +12,46 @@ export interface LocalAuthConfig {
   requireEmailConfirmation: boolean;
   allowUserRegistration: boolean;
   jwt: JwtConfig;
+  passwordPolicy: PasswordPolicy;
+  lockout: LockoutPolicy;
+  twoFactor: TwoFactorPolicy;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+export interface LockoutPolicy {
+  maxFailedAttempts: number;
+  maxFailedAttemptsPerIp: number;
+  failureWindowMinutes: number;
+  lockoutMinutes: number;
+}
+
+export interface TwoFactorPolicy {
+  issuer: string;
+  requiredForAdmins: boolean;
 }
 
 export interface JwtConfig {
   secret: string;
-  expiryInHours: number;
+  accessTokenExpiryInMinutes: number;
+  refreshTokenExpiryInDays: number;
   issuer: string;
   audience: string;
 }
 
-export interface OIDCConfig {
+export interface RoleMapping {
+  adminRoles: string[];
+  contributorRoles: string[];
+  viewerRoles: string[];
+  defaultRole: UserRole;
+}
+
+export interface OIDCConfig extends RoleMapping {
   enabled: boolean;
   authority: string;
   clientId: string;
@@ -27,12 +59,25 @@ export interface OIDCConfig {
   scope: string;
   responseType: string;
   callbackPath: string;
+  redirectUri?: string;
+  postLoginRedirectUri?: string;
+  roleClaim: string;
+  // Sign in to an existing account that has the provider's verified email address
+  linkByEmail: boolean;
 }
 
-export interface SAMLConfig {
+export interface SAMLConfig extends RoleMapping {
   enabled: boolean;
   entityId: string;
   signOnUrl: string;
   certificate: string;
   callbackPath: string;
+  callbackUrl?: string;
+  idpEntityId?: string;
+  postLoginRedirectUri?: string;
+  roleAttribute: string;
+  emailAttribute: string;
+  usernameAttribute?: string;
+  // Sign in to an existing account that has the asserted email address
+  linkByEmail: boolean;
 }
\ No newline at end of file
@@ -4,8 +4,13 @@ export interface BlobMetadata {
   created?: string;
   updated?: string;
   reviewed?: string;
+  reviewedBy?: string;
   tested?: string;
+  testedBy?: string;
   createdBy?: string;
+  releaseNote?: string;
+  promotedBy?: string;
+  promotedAt?: string;
   size: number;
   lastModified: string;
   contentType?: string;
@@ -13,6 +18,7 @@ export interface BlobMetadata {
   versionId?: string;
   isDir: boolean;
   isLatest: boolean;
+  tags?: string[];
 }
 
 export interface BlobInfo {
@@ -47,4 +53,42 @@ export interface FileVersion {
   size: number;
   etag: string;
   isLatest: boolean;
+  createdBy?: string;
+  createdAt?: string;
+  comment?: string;
+  // Set when the version was created by restoring an older one
+  restoredFromVersionId?: string;
+}
+
+export interface RestoreVersionRequest {
+  versionId: string;
+  comment?: string;
+}
+
+export type FileSortField = 'lastModified' | 'size' | 'name' | 'createdBy';
+
+export interface FileQuery {
+  prefix?: string;
+  category?: string;
+  tags?: string[];
+  contentType?: string;
+  createdBy?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  sortBy: FileSortField;
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+}
+
+export interface FileQueryResult {
+  items: BlobMetadata[];
+  total: number;
+  nextCursor?: string;
+}
+
+export interface SearchResult {
+  file: BlobMetadata;
+  snippet: string;
+  rank: number;
 }
\ No newline at end of file
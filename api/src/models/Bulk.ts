@@ -0,0 +1,37 @@
+export interface BulkItemResult {
+  fileName: string;
+  success: boolean;
+  // The status the single-file route would have answered with
+  status: number;
+  message?: string;
+  // Set for bulk promotion requests
+  promotionId?: number;
+}
+
+export interface BulkOperationResult {
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export enum BulkTagMode {
+  Replace = 'replace',
+  Add = 'add',
+  Remove = 'remove'
+}
+
+export interface BulkTagsRequest {
+  files: string[];
+  tags: string[];
+  mode: BulkTagMode;
+}
+
+export interface BulkPromotionRequest {
+  files: string[];
+  releaseNote: string;
+}
+
+export interface ZipDownloadRequest {
+  files?: string[];
+  prefix?: string;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+export enum LockoutScope {
+  Username = 'Username',
+  IpAddress = 'IpAddress'
+}
+
+export interface LoginFailureCounter {
+  scope: LockoutScope;
+  subject: string;
+  failedCount: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+  lockedUntil?: string;
+}
+
+export interface LockoutEvent {
+  id: number;
+  scope: LockoutScope;
+  subject: string;
+  ipAddress?: string;
+  failedAttempts: number;
+  lockedAt: string;
+  lockedUntil: string;
+  unlockedBy?: string;
+  unlockedAt?: string;
+}
+
+export interface LoginThrottleStatus {
+  allowed: boolean;
+  lockedOut: boolean;
+  retryAfterSeconds: number;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+export interface MailConfig {
+  transport: 'outbox' | 'smtp';
+  from: string;
+  outboxPath: string;
+  smtp: SmtpConfig;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
\ No newline at end of file
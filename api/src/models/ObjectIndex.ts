@@ -0,0 +1,23 @@
+export interface IndexedObject {
+  bucket: string;
+  fileName: string;
+  size: number;
+  lastModified: string;
+  etag: string;
+  versionId?: string;
+  contentType?: string;
+  metadata: Record<string, string>;
+  tags: string[];
+}
+
+export interface IndexReconciliationResult {
+  scanned: number;
+  updated: number;
+  removed: number;
+}
+
+export interface IndexedContentMatch {
+  entry: IndexedObject;
+  snippet: string;
+  rank: number;
+}
\ No newline at end of file
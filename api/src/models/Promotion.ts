@@ -0,0 +1,35 @@
+export enum PromotionStatus {
+  Pending = 'Pending',
+  Approved = 'Approved',
+  Rejected = 'Rejected'
+}
+
+export interface PromotionRequest {
+  id: number;
+  fileName: string;
+  versionId?: string;
+  etag?: string;
+  releaseNote: string;
+  status: PromotionStatus;
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+  stableVersionId?: string;
+}
+
+export interface CreatePromotionRequest {
+  fileName: string;
+  releaseNote: string;
+}
+
+export interface ReviewPromotionRequest {
+  comment?: string;
+}
+
+export interface PromotionInfo {
+  releaseNote: string;
+  requestedBy: string;
+  approvedBy: string;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+export interface DeletedFile {
+  id: string;
+  bucket: string;
+  fileName: string;
+  size: number;
+  etag: string;
+  // Version that was current when the file was deleted
+  versionId?: string;
+  contentType?: string;
+  tags: string[];
+  // Where the content is kept: behind a delete marker in a versioned bucket, or copied to the recycle bucket
+  deleteMarkerVersionId?: string;
+  recycleKey?: string;
+  deletedBy: string;
+  deletedAt: string;
+  // Purged for good once this has passed
+  expiresAt: string;
+}
+
+export interface DeletedFileQuery {
+  prefix?: string;
+  deletedBy?: string;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+export interface Session {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  previousTokenHash?: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+export enum SignOffType {
+  Review = 'Review',
+  Test = 'Test'
+}
+
+export interface SignOff {
+  id: number;
+  fileName: string;
+  versionId?: string;
+  etag: string;
+  type: SignOffType;
+  signedBy: string;
+  signedAt: string;
+  comment: string;
+  isValid: boolean;
+  invalidatedAt?: string;
+}
+
+export interface CreateSignOffRequest {
+  type: SignOffType;
+  comment: string;
+  versionId?: string;
+}
\ No newline at end of file
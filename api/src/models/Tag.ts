@@ -3,6 +3,61 @@ export interface Tag {
   name: string;
 }
 
+export interface TagUsage {
+  id?: number;
+  name: string;
+  usage: Record<string, number>;
+  total: number;
+  lastUsed?: string;
+}
+
+export interface TagUsageReport {
+  tags: TagUsage[];
+  categorized: TagUsage[];
+  unregistered: TagUsage[];
+}
+
 export interface CreateTagRequest {
   name: string;
+}
+
+export interface RenameTagRequest {
+  name: string;
+}
+
+export interface MergeTagRequest {
+  targetId: number;
+}
+
+export type TagOperationStatus = 'Running' | 'Completed' | 'Failed';
+
+export interface TagOperation {
+  id: string;
+  type: 'rename' | 'merge';
+  status: TagOperationStatus;
+  sourceTag: string;
+  targetTag: string;
+  total: number;
+  processed: number;
+  changed: number;
+  failed: string[];
+  startedBy: string;
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface TagCategory {
+  id: number;
+  name: string;
+  allowedValues: string[];
+}
+
+export interface CreateTagCategoryRequest {
+  name: string;
+  allowedValues: string[];
+}
+
+export interface UpdateTagCategoryRequest {
+  allowedValues: string[];
 }
\ No newline at end of file
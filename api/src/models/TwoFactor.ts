@@ -0,0 +1,39 @@
+export interface TwoFactorCredential {
+  userId: string;
+  secret: string;
+  createdAt: string;
+  enabledAt?: string;
+  lastUsedStep?: number;
+  recoveryCodeHashes: string[];
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  provisioningUri: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest {
+  password: string;
+  code: string;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+}
\ No newline at end of file
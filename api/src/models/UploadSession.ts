@@ -0,0 +1,36 @@
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface UploadSession {
+  id: string;
+  // Full path the file is stored under once the session completes
+  fileName: string;
+  bucket: string;
+  // MinIO's multipart upload id
+  uploadId: string;
+  contentType: string;
+  tags: string[];
+  metadata: Record<string, string>;
+  userId: string;
+  createdBy: string;
+  createdAt: string;
+  // Pushed forward by every uploaded part; sessions idle past it are aborted
+  expiresAt: string;
+  parts: UploadedPart[];
+}
+
+export interface CreateUploadSessionRequest {
+  fileName: string;
+  folder?: string;
+  contentType?: string;
+  // Declared total size, checked against the upload limit before any data is sent
+  size?: number;
+  tags?: string[];
+  metadata?: Record<string, string>;
+  // Recorded with the version the session creates
+  comment?: string;
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { ApiKeyScope, BucketScope } from './ApiKey';
+
 export enum UserRole {
   Viewer = 1,      // Read-only access to all files and metadata
   Contributor = 2, // Can read files, update metadata  
@@ -13,6 +15,8 @@ export interface User {
   createdAt: string;
   lastLoginAt?: string;
   isActive: boolean;
+  mustChangePassword: boolean;
+  emailConfirmed: boolean;
 }
 
 export interface LoginRequest {
@@ -27,6 +31,25 @@ export interface RegisterRequest {
   role?: UserRole;
 }
 
+export interface SignUpRequest {
+  username: string;
+  email: string;
+  password: string;
+}
+
+export interface SignUpResult {
+  confirmationRequired: boolean;
+  auth?: AuthResponse;
+}
+
+export interface ConfirmEmailRequest {
+  token: string;
+}
+
+export interface ResendConfirmationRequest {
+  email: string;
+}
+
 export interface UpdateUserRequest {
   role: UserRole;
   isActive: boolean;
@@ -36,10 +59,62 @@ export interface AuthResponse {
   token: string;
   user: Omit<User, 'passwordHash'>;
   expiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface ExternalIdentity {
+  provider: string;
+  subject: string;
+  username: string;
+  email?: string;
+  emailVerified: boolean;
+  role?: UserRole;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface PasswordResetToken {
+  token: string;
+  expiresAt: string;
+}
+
+export enum UserTokenPurpose {
+  PasswordReset = 'PasswordReset',
+  EmailConfirmation = 'EmailConfirmation',
+  TwoFactorChallenge = 'TwoFactorChallenge'
+}
+
+export interface UserToken {
+  id: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
 }
 
 export interface UserContext {
   userId: string;
   username: string;
   role: UserRole;
+  sessionId?: string;
+  apiKeyId?: string;
+  apiKeyScopes?: ApiKeyScope[];
+  bucketScope?: BucketScope;
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
 }
\ No newline at end of file
@@ -1,4 +1,17 @@
 export * from './User';
 export * from './BlobMetadata';
 export * from './Tag';
-export * from './AuthConfig';
\ No newline at end of file
+export * from './AuthConfig';
+export * from './Promotion';
+export * from './SignOff';
+export * from './ObjectIndex';
+export * from './Session';
+export * from './ApiKey';
+export * from './Mail';
+export * from './LoginThrottle';
+export * from './TwoFactor';
+export * from './AccessControl';
+export * from './AuditLog';
+export * from './UploadSession';
+export * from './Bulk';
+export * from './RecycleBin';
\ No newline at end of file
@@ -1,16 +1,33 @@
-import { Router } from 'express';
-import multer from 'multer';
+import { Router, Request } from 'express';
 import { 
   AuthController, 
   AuthInfoController, 
   BlobStorageController, 
   TagsController, 
-  UserController 
+  UserController,
+  PromotionController,
+  SignOffController,
+  OidcController,
+  SamlController,
+  ApiKeyController,
+  RegistrationController,
+  TwoFactorController,
+  AccessControlController,
+  AuditController,
+  UploadSessionController
 } from '../controllers';
-import { AuthMiddleware } from '../middleware';
-import { UserRole } from '../models';
+import { AuthMiddleware, AuditMiddleware } from '../middleware';
+import { UserRole, ApiKeyScope } from '../models';
 
-const upload = multer({ storage: multer.memoryStorage() });
+// Audit object resolvers for routes that don't name their object in the path
+const bodyField = (field: string) => (req: Request): string | undefined =>
+  typeof req.body?.[field] === 'string' ? req.body[field] : undefined;
+
+const queryField = (field: string) => (req: Request): string | undefined =>
+  typeof req.query[field] === 'string' ? req.query[field] as string : undefined;
+
+// Set by the upload handler to the name the file was stored under
+const uploadedFileName = (req: Request): string | undefined => req.file?.path;
 
 export function createRoutes(
   authController: AuthController,
@@ -18,134 +35,584 @@ export function createRoutes(
   blobStorageController: BlobStorageController,
   tagsController: TagsController,
   userController: UserController,
-  authMiddleware: AuthMiddleware
+  promotionController: PromotionController,
+  signOffController: SignOffController,
+  oidcController: OidcController,
+  samlController: SamlController,
+  apiKeyController: ApiKeyController,
+  registrationController: RegistrationController,
+  twoFactorController: TwoFactorController,
+  accessControlController: AccessControlController,
+  auditController: AuditController,
+  uploadSessionController: UploadSessionController,
+  authMiddleware: AuthMiddleware,
+  auditMiddleware: AuditMiddleware
 ): Router {
   const router = Router();
 
   // Auth routes
-  router.post('/api/auth/login', authController.login);
+  router.post('/api/auth/login', auditMiddleware.record('auth.login'), authController.login);
+  router.post('/api/auth/login/2fa', auditMiddleware.record('auth.login.2fa'), authController.loginTwoFactor);
+  router.post('/api/auth/refresh', auditMiddleware.record('auth.refresh'), authController.refresh);
+  router.post('/api/auth/logout', 
+    auditMiddleware.record('auth.logout'), 
+    authMiddleware.authenticateForAccountSetup, 
+    authController.logout
+  );
+  router.put('/api/auth/password', 
+    auditMiddleware.record('auth.password.change'), 
+    authMiddleware.authenticateForAccountSetup, 
+    authController.changePassword
+  );
+  router.post('/api/auth/password/reset', auditMiddleware.record('auth.password.reset'), authController.resetPassword);
   router.post('/api/auth/register', 
+    auditMiddleware.record('user.create', bodyField('username')), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin), 
     authController.register
   );
+  
+  // Public self-registration with optional email confirmation
+  router.post('/api/auth/signup', auditMiddleware.record('auth.signup', bodyField('username')), registrationController.signUp);
+  router.get('/api/auth/confirm-email', auditMiddleware.record('auth.email.confirm'), registrationController.confirmEmail);
+  router.post('/api/auth/confirm-email/resend', auditMiddleware.record('auth.email.resend', bodyField('email')), registrationController.resendConfirmation);
+  
   router.get('/api/auth/profile', 
-    authMiddleware.authenticate, 
+    authMiddleware.authenticateForAccountSetup, 
     authController.getProfile
   );
 
+  // TOTP two-factor authentication; enrolment stays reachable for admins the policy is holding back
+  router.get('/api/auth/2fa', 
+    authMiddleware.authenticateForAccountSetup, 
+    twoFactorController.getStatus
+  );
+  router.post('/api/auth/2fa/setup', 
+    auditMiddleware.record('auth.2fa.setup'), 
+    authMiddleware.authenticateForAccountSetup, 
+    twoFactorController.beginSetup
+  );
+  router.post('/api/auth/2fa/enable', 
+    auditMiddleware.record('auth.2fa.enable'), 
+    authMiddleware.authenticateForAccountSetup, 
+    twoFactorController.enable
+  );
+  router.post('/api/auth/2fa/recovery-codes', 
+    auditMiddleware.record('auth.2fa.recovery-codes'), 
+    authMiddleware.authenticate, 
+    twoFactorController.regenerateRecoveryCodes
+  );
+  router.delete('/api/auth/2fa', 
+    auditMiddleware.record('auth.2fa.disable'), 
+    authMiddleware.authenticate, 
+    twoFactorController.disable
+  );
+
+  // OIDC authorization code flow with PKCE
+  router.get('/api/auth/oidc/login', oidcController.login);
+  router.get(oidcController.callbackPath, auditMiddleware.record('auth.oidc.login'), oidcController.callback);
+
+  // SAML 2.0 service provider
+  router.get('/api/auth/saml/metadata', samlController.getMetadata);
+  router.get('/api/auth/saml/login', samlController.login);
+  router.post(samlController.callbackPath, auditMiddleware.record('auth.saml.login'), samlController.callback);
+
   // Auth info routes
   router.get('/api/authinfo', authInfoController.getAuthInfo);
 
+  // API key routes
+  router.get('/api/apikeys', 
+    authMiddleware.authenticate, 
+    apiKeyController.getApiKeys
+  );
+  
+  router.post('/api/apikeys', 
+    auditMiddleware.record('apikey.create', bodyField('name')), 
+    authMiddleware.authenticate, 
+    apiKeyController.createApiKey
+  );
+  
+  router.delete('/api/apikeys/:id', 
+    auditMiddleware.record('apikey.revoke'), 
+    authMiddleware.authenticate, 
+    apiKeyController.revokeApiKey
+  );
+
   // Blob storage routes
   router.post('/api/blobstorage/upload', 
-    authMiddleware.authenticate, 
+    auditMiddleware.record('file.upload', uploadedFileName), 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
     authMiddleware.requireRole(UserRole.Contributor),
-    upload.single('file'),
     blobStorageController.uploadFile
   );
+
+  router.post('/api/blobstorage/upload/batch', 
+    auditMiddleware.record('file.upload'), 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.uploadFiles
+  );
+
+  // Upload session routes; parts are not audited one by one, the completed upload is
+  router.post('/api/uploads', 
+    auditMiddleware.record('upload.session.create'), 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    authMiddleware.requireRole(UserRole.Contributor),
+    uploadSessionController.createSession
+  );
+
+  router.get('/api/uploads', 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    uploadSessionController.getSessions
+  );
+
+  router.get('/api/uploads/:id', 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    uploadSessionController.getSession
+  );
+
+  router.put('/api/uploads/:id/parts/:partNumber', 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    authMiddleware.requireRole(UserRole.Contributor),
+    uploadSessionController.uploadPart
+  );
+
+  router.post('/api/uploads/:id/complete', 
+    auditMiddleware.record('file.upload'), 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    authMiddleware.requireRole(UserRole.Contributor),
+    uploadSessionController.completeSession
+  );
+
+  router.delete('/api/uploads/:id', 
+    auditMiddleware.record('upload.session.abort'), 
+    authMiddleware.authenticateWithScope(ApiKeyScope.Upload), 
+    uploadSessionController.abortSession
+  );
+  
+  // Registered before the plain download route so nested paths ending in /version/:id match here
+  router.get('/api/blobstorage/download/:fileName(*)/version/:versionId', 
+    auditMiddleware.record('file.download'), 
+    authMiddleware.authenticate, 
+    blobStorageController.downloadFileVersion
+  );
   
-  router.get('/api/blobstorage/download/:fileName', 
+  router.get('/api/blobstorage/download/:fileName(*)', 
+    auditMiddleware.record('file.download'), 
     authMiddleware.authenticate, 
     blobStorageController.downloadFile
   );
   
-  router.delete('/api/blobstorage/delete/:fileName', 
+  router.post('/api/blobstorage/download/zip', 
+    auditMiddleware.record('file.download.zip', bodyField('prefix')), 
     authMiddleware.authenticate, 
-    authMiddleware.requireRole(UserRole.Admin),
+    blobStorageController.downloadZip
+  );
+
+  router.post('/api/blobstorage/bulk/delete', 
+    auditMiddleware.record('file.delete'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.deleteFiles
+  );
+
+  router.post('/api/blobstorage/bulk/tags', 
+    auditMiddleware.record('file.tags.update'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.setFilesTags
+  );
+
+  router.post('/api/blobstorage/bulk/promote', 
+    auditMiddleware.record('promotion.submit'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    promotionController.submitPromotions
+  );
+
+  router.delete('/api/blobstorage/delete/:fileName(*)', 
+    auditMiddleware.record('file.delete'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
     blobStorageController.deleteFile
   );
   
+  router.get('/api/blobstorage/recycle-bin', 
+    auditMiddleware.record('recycle.list', queryField('prefix')), 
+    authMiddleware.authenticate, 
+    blobStorageController.listDeletedFiles
+  );
+
+  router.post('/api/blobstorage/recycle-bin/:id/restore', 
+    auditMiddleware.record('recycle.restore'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.restoreDeletedFile
+  );
+
+  router.delete('/api/blobstorage/recycle-bin/:id', 
+    auditMiddleware.record('recycle.purge'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    blobStorageController.purgeDeletedFile
+  );
+  
   router.get('/api/blobstorage/list', 
+    auditMiddleware.record('file.list', queryField('prefix')), 
     authMiddleware.authenticate, 
     blobStorageController.listFiles
   );
   
   router.get('/api/blobstorage/list-with-metadata', 
+    auditMiddleware.record('file.list', queryField('prefix')), 
     authMiddleware.authenticate, 
     blobStorageController.listFilesWithMetadata
   );
   
-  router.get('/api/blobstorage/exists/:fileName', 
+  router.get('/api/blobstorage/query', 
+    auditMiddleware.record('file.query', queryField('prefix')), 
+    authMiddleware.authenticate, 
+    blobStorageController.queryFiles
+  );
+  
+  router.get('/api/blobstorage/search', 
+    auditMiddleware.record('file.search', queryField('q')), 
+    authMiddleware.authenticate, 
+    blobStorageController.searchFiles
+  );
+  
+  router.get('/api/blobstorage/exists/:fileName(*)', 
+    auditMiddleware.record('file.exists'), 
     authMiddleware.authenticate, 
     blobStorageController.fileExists
   );
   
-  router.get('/api/blobstorage/metadata/:fileName', 
+  router.get('/api/blobstorage/metadata/:fileName(*)', 
+    auditMiddleware.record('file.metadata'), 
     authMiddleware.authenticate, 
     blobStorageController.getFileMetadata
   );
   
-  router.get('/api/blobstorage/tags/:fileName', 
+  router.get('/api/blobstorage/tags/:fileName(*)', 
+    auditMiddleware.record('file.tags.read'), 
     authMiddleware.authenticate, 
     blobStorageController.getFileTags
   );
   
-  router.put('/api/blobstorage/tags/:fileName', 
+  router.put('/api/blobstorage/tags/:fileName(*)', 
+    auditMiddleware.record('file.tags.update'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Contributor),
     blobStorageController.setFileTags
   );
   
-  router.delete('/api/blobstorage/tags/:fileName', 
+  router.delete('/api/blobstorage/tags/:fileName(*)', 
+    auditMiddleware.record('file.tags.delete'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Contributor),
     blobStorageController.deleteFileTags
   );
   
-  router.get('/api/blobstorage/versions/:fileName', 
+  router.get('/api/blobstorage/versions/:fileName(*)', 
+    auditMiddleware.record('file.versions'), 
     authMiddleware.authenticate, 
     blobStorageController.getFileVersions
   );
   
-  router.get('/api/blobstorage/download/:fileName/version/:versionId', 
+  router.post('/api/blobstorage/restore/:fileName(*)', 
+    auditMiddleware.record('file.restore'), 
     authMiddleware.authenticate, 
-    blobStorageController.downloadFileVersion
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.restoreFileVersion
   );
-  
-  router.get('/api/blobstorage/base64/:fileName', 
+
+  router.get('/api/blobstorage/diff/:fileName(*)', 
+    auditMiddleware.record('file.diff'), 
+    authMiddleware.authenticate, 
+    blobStorageController.diffFileVersions
+  );
+
+  router.get('/api/blobstorage/base64/:fileName(*)', 
+    auditMiddleware.record('file.download'), 
     authMiddleware.authenticate, 
     blobStorageController.getFileBase64
   );
 
+  // Folder routes
+  router.post('/api/blobstorage/folders', 
+    auditMiddleware.record('folder.create', bodyField('path')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.createFolder
+  );
+  
+  router.post('/api/blobstorage/folders/move', 
+    auditMiddleware.record('folder.move', bodyField('source')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.moveFolder
+  );
+  
+  router.delete('/api/blobstorage/folders/:folderPath(*)', 
+    auditMiddleware.record('folder.delete'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    blobStorageController.deleteFolder
+  );
+
+  // Promotion routes
+  router.post('/api/blobstorage/promote', 
+    auditMiddleware.record('promotion.submit', bodyField('fileName')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    promotionController.submitPromotion
+  );
+  
+  router.get('/api/blobstorage/promote', 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    promotionController.getPromotions
+  );
+  
+  router.get('/api/blobstorage/promote/:id', 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    promotionController.getPromotionById
+  );
+  
+  router.post('/api/blobstorage/promote/:id/approve', 
+    auditMiddleware.record('promotion.approve'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    promotionController.approvePromotion
+  );
+  
+  router.post('/api/blobstorage/promote/:id/reject', 
+    auditMiddleware.record('promotion.reject'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    promotionController.rejectPromotion
+  );
+
+  // Sign-off routes
+  router.get('/api/blobstorage/signoffs/:fileName(*)', 
+    authMiddleware.authenticate, 
+    signOffController.getSignOffs
+  );
+  
+  router.post('/api/blobstorage/signoffs/:fileName(*)', 
+    auditMiddleware.record('file.signoff'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Contributor),
+    signOffController.createSignOff
+  );
+
   // Tags routes
   router.get('/api/tags', 
+    auditMiddleware.record('tag.list'), 
     authMiddleware.authenticate, 
     tagsController.getAllTags
   );
   
   router.post('/api/tags', 
+    auditMiddleware.record('tag.create', bodyField('name')), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     tagsController.createTag
   );
   
+  router.get('/api/tags/usage', 
+    auditMiddleware.record('tag.usage'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.getTagUsage
+  );
+  
+  router.get('/api/tags/categories', 
+    auditMiddleware.record('tag.category.list'), 
+    authMiddleware.authenticate, 
+    tagsController.getAllCategories
+  );
+  
+  router.post('/api/tags/categories', 
+    auditMiddleware.record('tag.category.create', bodyField('name')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.createCategory
+  );
+  
+  router.put('/api/tags/categories/:id', 
+    auditMiddleware.record('tag.category.update'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.updateCategory
+  );
+  
+  router.delete('/api/tags/categories/:id', 
+    auditMiddleware.record('tag.category.delete'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.deleteCategory
+  );
+  
+  router.get('/api/tags/operations/:operationId', 
+    auditMiddleware.record('tag.operation', req => req.params.operationId), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.getOperation
+  );
+  
+  router.put('/api/tags/:id', 
+    auditMiddleware.record('tag.rename'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.renameTag
+  );
+  
+  router.post('/api/tags/:id/merge', 
+    auditMiddleware.record('tag.merge'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    tagsController.mergeTag
+  );
+  
   router.delete('/api/tags/:id', 
+    auditMiddleware.record('tag.delete'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     tagsController.deleteTag
   );
 
+  // Group and access grant routes
+  router.get('/api/groups', 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.getGroups
+  );
+  
+  router.post('/api/groups', 
+    auditMiddleware.record('group.create', bodyField('name')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.createGroup
+  );
+  
+  router.delete('/api/groups/:id', 
+    auditMiddleware.record('group.delete'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.deleteGroup
+  );
+  
+  router.post('/api/groups/:id/members', 
+    auditMiddleware.record('group.member.add'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.addGroupMember
+  );
+  
+  router.delete('/api/groups/:id/members/:userId', 
+    auditMiddleware.record('group.member.remove', req => req.params.id), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.removeGroupMember
+  );
+  
+  router.get('/api/acl', 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.getGrants
+  );
+  
+  router.post('/api/acl', 
+    auditMiddleware.record('acl.grant', bodyField('pathPrefix')), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.createGrant
+  );
+  
+  router.delete('/api/acl/:id', 
+    auditMiddleware.record('acl.revoke'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    accessControlController.deleteGrant
+  );
+
+  // Audit log routes
+  router.get('/api/audit', 
+    auditMiddleware.record('audit.query'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    auditController.getEntries
+  );
+  
+  router.get('/api/audit/export', 
+    auditMiddleware.record('audit.export'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    auditController.exportEntries
+  );
+
   // User routes
   router.get('/api/user', 
+    auditMiddleware.record('user.list'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     userController.getAllUsers
   );
   
+  // Registered before /api/user/:userId so 'lockouts' isn't taken for a user id
+  router.get('/api/user/lockouts', 
+    auditMiddleware.record('user.lockouts'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    userController.getLockouts
+  );
+  
   router.get('/api/user/:userId', 
+    auditMiddleware.record('user.read'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     userController.getUserById
   );
   
   router.put('/api/user/:userId', 
+    auditMiddleware.record('user.update'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     userController.updateUser
   );
   
+  router.post('/api/user/:userId/password-reset', 
+    auditMiddleware.record('user.password-reset'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    userController.createPasswordReset
+  );
+
+  router.delete('/api/user/:userId/sessions', 
+    auditMiddleware.record('user.sessions.revoke'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    userController.revokeSessions
+  );
+
+  router.delete('/api/user/:userId/lockout', 
+    auditMiddleware.record('user.unlock'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    userController.unlockUser
+  );
+
+  router.delete('/api/user/:userId/2fa', 
+    auditMiddleware.record('user.2fa.reset'), 
+    authMiddleware.authenticate, 
+    authMiddleware.requireRole(UserRole.Admin),
+    twoFactorController.resetUserTwoFactor
+  );
+
   router.delete('/api/user/:userId', 
+    auditMiddleware.record('user.delete'), 
     authMiddleware.authenticate, 
     authMiddleware.requireRole(UserRole.Admin),
     userController.deleteUser
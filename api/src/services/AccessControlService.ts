@@ -0,0 +1,142 @@
+import { Database } from '../database';
+import {
+  AccessGrant,
+  CreateAccessGrantRequest,
+  CreateGroupRequest,
+  FilePermission,
+  Group,
+  PathAccess,
+  UserContext,
+  UserRole
+} from '../models';
+
+// What each role may do on paths nobody has restricted
+const DEFAULT_PERMISSIONS: Record<UserRole, FilePermission[]> = {
+  [UserRole.Viewer]: [FilePermission.Read],
+  [UserRole.Contributor]: [FilePermission.Read, FilePermission.Write, FilePermission.Promote],
+  [UserRole.Admin]: Object.values(FilePermission)
+};
+
+// Grants can never lift a user above these, except that contributors may be trusted with deletes
+const MAX_GRANTED_PERMISSIONS: Record<UserRole, FilePermission[]> = {
+  [UserRole.Viewer]: [FilePermission.Read],
+  [UserRole.Contributor]: Object.values(FilePermission),
+  [UserRole.Admin]: Object.values(FilePermission)
+};
+
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+// Raised instead of silently lifting a restriction, which would open the path to everyone
+export class AccessGrantConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessGrantConflictError';
+  }
+}
+
+export class AccessControlService {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  async getPathAccessAsync(userContext: UserContext): Promise<PathAccess> {
+    const defaultPermissions = DEFAULT_PERMISSIONS[userContext.role] || [];
+
+    // Admins are never restricted by grants
+    if (userContext.role >= UserRole.Admin) {
+      return { defaultPermissions, rules: [] };
+    }
+
+    const grants = await this.database.getAllAccessGrants();
+    const groupIds = new Set(await this.database.getGroupIdsForUser(userContext.userId));
+    const allowed = MAX_GRANTED_PERMISSIONS[userContext.role] || [];
+    const permissionsByPath = new Map<string, Set<FilePermission>>();
+
+    // Any grant makes its path restricted; only grants to the user's own groups add permissions
+    for (const grant of grants) {
+      const permissions = permissionsByPath.get(grant.pathPrefix) || new Set<FilePermission>();
+      if (groupIds.has(grant.groupId)) {
+        grant.permissions.filter(permission => allowed.includes(permission)).forEach(permission => permissions.add(permission));
+      }
+      permissionsByPath.set(grant.pathPrefix, permissions);
+    }
+
+    return {
+      defaultPermissions,
+      rules: [...permissionsByPath].map(([pathPrefix, permissions]) => ({ pathPrefix, permissions: [...permissions] }))
+    };
+  }
+
+  async getGroupsAsync(): Promise<Group[]> {
+    return this.database.getAllGroups();
+  }
+
+  async getGroupByIdAsync(id: number): Promise<Group | null> {
+    return this.database.getGroupById(id);
+  }
+
+  async getGroupByNameAsync(name: string): Promise<Group | null> {
+    return this.database.getGroupByName(name);
+  }
+
+  async createGroupAsync(request: CreateGroupRequest): Promise<Group> {
+    return this.database.createGroup(request.name, request.description, new Date().toISOString());
+  }
+
+  async deleteGroupAsync(id: number): Promise<boolean> {
+    const grants = (await this.database.getAllAccessGrants()).filter(grant => grant.groupId === id);
+
+    if (grants.length > 0) {
+      throw new AccessGrantConflictError(`Group still has ${grants.length} access grant(s); revoke them first`);
+    }
+
+    return this.database.deleteGroup(id);
+  }
+
+  async addGroupMemberAsync(groupId: number, userId: string): Promise<boolean> {
+    return this.database.addGroupMember(groupId, userId);
+  }
+
+  async removeGroupMemberAsync(groupId: number, userId: string): Promise<boolean> {
+    return this.database.removeGroupMember(groupId, userId);
+  }
+
+  async getGrantsAsync(): Promise<AccessGrant[]> {
+    return this.database.getAllAccessGrants();
+  }
+
+  async grantAsync(request: CreateAccessGrantRequest, userContext: UserContext): Promise<AccessGrant | null> {
+    return this.database.upsertAccessGrant({
+      pathPrefix: request.pathPrefix,
+      groupId: request.groupId,
+      permissions: [...new Set(request.permissions)],
+      createdBy: userContext.username,
+      createdAt: new Date().toISOString()
+    });
+  }
+
+  // Revoking the last grant on a path makes it unrestricted, so that has to be asked for explicitly
+  async revokeGrantAsync(id: number, unrestrict: boolean): Promise<boolean> {
+    const grants = await this.database.getAllAccessGrants();
+    const grant = grants.find(candidate => candidate.id === id);
+
+    if (!grant) {
+      return false;
+    }
+
+    if (!unrestrict && !grants.some(other => other.id !== id && other.pathPrefix === grant.pathPrefix)) {
+      throw new AccessGrantConflictError(
+        `'${grant.pathPrefix}' has no other grants, so revoking this one opens it to everyone; pass unrestrict=true to do so`
+      );
+    }
+
+    return this.database.deleteAccessGrant(id);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { Database } from '../database';
+import { TwoFactorService } from './TwoFactorService';
+import {
+  ApiKey,
+  ApiKeyInfo,
+  BucketScope,
+  CreateApiKeyRequest,
+  CreatedApiKey,
+  UserContext,
+  UserRole
+} from '../models';
+import { generateRandomToken, hashToken, tokenHashesMatch } from '../utils';
+
+const API_KEY_PREFIX = 'cpk_';
+
+export class ApiKeyService {
+  private database: Database;
+  private twoFactorService: TwoFactorService;
+
+  constructor(database: Database, twoFactorService: TwoFactorService) {
+    this.database = database;
+    this.twoFactorService = twoFactorService;
+  }
+
+  isApiKey(value: string): boolean {
+    return value.startsWith(API_KEY_PREFIX);
+  }
+
+  async createAsync(request: CreateApiKeyRequest, userContext: UserContext): Promise<CreatedApiKey | null> {
+    if (request.bucket && !this.canAccessBucket(userContext.role, request.bucket)) {
+      return null;
+    }
+
+    const id = crypto.randomUUID();
+    // The id is embedded so the key can be looked up without storing it in plain text
+    const key = `${API_KEY_PREFIX}${id}_${generateRandomToken()}`;
+
+    const apiKey: ApiKey = {
+      id,
+      userId: userContext.userId,
+      name: request.name,
+      keyHash: hashToken(key),
+      scopes: [...new Set(request.scopes)],
+      bucket: request.bucket,
+      createdAt: new Date().toISOString(),
+      expiresAt: request.expiresAt
+    };
+
+    await this.database.createApiKey(apiKey);
+
+    return { ...this.toApiKeyInfo(apiKey), key };
+  }
+
+  async getKeysAsync(userId: string): Promise<ApiKeyInfo[]> {
+    const apiKeys = await this.database.getApiKeysForUser(userId);
+    return apiKeys.map(apiKey => this.toApiKeyInfo(apiKey));
+  }
+
+  async getKeyByIdAsync(id: string): Promise<ApiKeyInfo | null> {
+    const apiKey = await this.database.getApiKeyById(id);
+    return apiKey ? this.toApiKeyInfo(apiKey) : null;
+  }
+
+  async revokeAsync(id: string): Promise<boolean> {
+    return this.database.revokeApiKey(id);
+  }
+
+  async validateAsync(key: string): Promise<UserContext | null> {
+    const id = key.slice(API_KEY_PREFIX.length).split('_')[0];
+    const apiKey = await this.database.getApiKeyById(id);
+    const now = new Date().toISOString();
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!tokenHashesMatch(hashToken(key), apiKey.keyHash)) {
+      return null;
+    }
+
+    const user = await this.database.getUserById(apiKey.userId);
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    // Re-checked on every use so a demoted owner cannot keep reaching the stable bucket
+    if (apiKey.bucket && !this.canAccessBucket(user.role, apiKey.bucket)) {
+      return null;
+    }
+
+    await this.database.updateApiKeyLastUsed(apiKey.id, now);
+
+    return {
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes,
+      bucketScope: apiKey.bucket,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorSetupRequired: await this.twoFactorService.isSetupRequiredAsync(user)
+    };
+  }
+
+  private canAccessBucket(role: UserRole, bucket: BucketScope): boolean {
+    // Only admins can read the stable bucket alongside the working one
+    return bucket === BucketScope.Working || role === UserRole.Admin;
+  }
+
+  private toApiKeyInfo(apiKey: ApiKey): ApiKeyInfo {
+    return {
+      id: apiKey.id,
+      userId: apiKey.userId,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      bucket: apiKey.bucket,
+      createdAt: apiKey.createdAt,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt
+    };
+  }
+}
\ No newline at end of file
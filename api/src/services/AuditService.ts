@@ -0,0 +1,64 @@
+import { Database } from '../database';
+import { AuditEntry, AuditQuery, AuditQueryResult } from '../models';
+import { encodeCursor, decodeCursor } from '../utils';
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'timestamp',
+  'actor',
+  'userId',
+  'apiKeyId',
+  'action',
+  'object',
+  'versionId',
+  'ipAddress',
+  'outcome',
+  'statusCode'
+];
+
+export class AuditService {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  async recordAsync(entry: Omit<AuditEntry, 'id'>): Promise<void> {
+    try {
+      await this.database.createAuditEntry(entry);
+    } catch (error) {
+      // A lost audit entry is logged loudly but must not turn a completed operation into an error
+      console.error('Error writing audit entry:', error, entry);
+    }
+  }
+
+  async queryAsync(query: AuditQuery): Promise<AuditQueryResult> {
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    const beforeId = cursor && typeof cursor[0] === 'number' ? cursor[0] : undefined;
+
+    const entries = await this.database.queryAuditEntries({ ...query, limit: query.limit + 1 }, beforeId);
+    const items = entries.slice(0, query.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: entries.length > query.limit && last ? encodeCursor([last.id]) : undefined
+    };
+  }
+
+  formatCsv(entries: AuditEntry[]): string {
+    const escape = (value: unknown): string => {
+      const text = value === undefined || value === null ? '' : String(value);
+      // Leading formula characters are neutralised so exports can be opened in a spreadsheet safely
+      const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+      return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+    };
+
+    const lines = [
+      CSV_COLUMNS.join(','),
+      ...entries.map(entry => CSV_COLUMNS.map(column => escape(entry[column])).join(','))
+    ];
+
+    return `${lines.join('\r\n')}\r\n`;
+  }
+}
\ No newline at end of file
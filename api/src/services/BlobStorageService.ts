@@ -1,6 +1,42 @@
+import crypto from 'crypto';
 import * as Minio from 'minio';
 import { Readable } from 'stream';
-import { BlobMetadata, BlobInfo, UserContext, FileVersion } from '../models';
+import { Database } from '../database';
+import { AccessControlService, AccessDeniedError } from './AccessControlService';
+import {
+  BlobMetadata,
+  BlobInfo,
+  UserContext,
+  BucketScope,
+  FileVersion,
+  PromotionInfo,
+  FileQuery,
+  FileQueryResult,
+  IndexedObject,
+  IndexReconciliationResult,
+  SearchResult,
+  FilePermission,
+  HiddenPath,
+  DeletedFile,
+  DeletedFileQuery
+} from '../models';
+import {
+  encodeCursor,
+  decodeCursor,
+  buildFullTextQuery,
+  TagExpression,
+  canAccessPath,
+  canAccessTree,
+  getHiddenPaths,
+  DiffError
+} from '../utils';
+
+// Calcpad sources and plain text are indexed for full-text search, up to this size
+const TEXT_FILE_EXTENSIONS = ['.cpd', '.txt'];
+const MAX_INDEXED_CONTENT_BYTES = 2 * 1024 * 1024;
+
+// Uploads reach MinIO part by part, so memory use is bounded by one part per upload
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
 
 export interface MinioConfig {
   endpoint: string;
@@ -10,12 +46,35 @@ export interface MinioConfig {
   useSSL: boolean;
 }
 
+export class RecycleBinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecycleBinError';
+  }
+}
+
+export class ContentChangedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentChangedError';
+  }
+}
+
 export class BlobStorageService {
   private client: Minio.Client;
   private workingBucket: string;
   private stableBucket: string;
+  private recycleBucket: string;
+  private database: Database;
+  private accessControlService: AccessControlService;
+  private recycleBinRetentionDays: number;
 
-  constructor(config: MinioConfig) {
+  constructor(
+    config: MinioConfig,
+    database: Database,
+    accessControlService: AccessControlService,
+    recycleBinRetentionDays: number
+  ) {
     this.client = new Minio.Client({
       endPoint: config.endpoint.split(':')[0],
       port: parseInt(config.endpoint.split(':')[1]) || (config.useSSL ? 443 : 80),
@@ -26,13 +85,68 @@ export class BlobStorageService {
     
     this.workingBucket = `${config.bucketName}-working`;
     this.stableBucket = `${config.bucketName}-stable`;
+    this.recycleBucket = `${config.bucketName}-recycle`;
+    this.database = database;
+    this.accessControlService = accessControlService;
+    this.recycleBinRetentionDays = recycleBinRetentionDays;
   }
 
   private getBucketName(userContext: UserContext): string {
+    // API keys limited to one bucket read and write only there
+    if (userContext.bucketScope) {
+      return userContext.bucketScope === BucketScope.Stable ? this.stableBucket : this.workingBucket;
+    }
+
     // Contributors work in working bucket, others access both
     return userContext.role <= 2 ? this.workingBucket : this.stableBucket;
   }
 
+  // Released files in stable are only removed by admins, whatever a delete grant allows
+  private getDeletableBuckets(userContext: UserContext): string[] {
+    return userContext.role === 3 ? [this.workingBucket, this.stableBucket] : [this.workingBucket];
+  }
+
+  getBucketNames(): string[] {
+    return [this.workingBucket, this.stableBucket];
+  }
+
+  getRecycleBucketName(): string {
+    return this.recycleBucket;
+  }
+
+  private getReadableBuckets(userContext: UserContext): string[] {
+    const buckets = [this.getBucketName(userContext)];
+    
+    // Admin users can access both buckets, unless an API key limits them to one
+    if (userContext.role === 3 && !userContext.bucketScope) {
+      buckets.push(this.workingBucket);
+    }
+
+    return buckets;
+  }
+
+  async canAccessAsync(path: string, permission: FilePermission, userContext: UserContext): Promise<boolean> {
+    return canAccessPath(await this.accessControlService.getPathAccessAsync(userContext), path, permission);
+  }
+
+  private async getHiddenPathsAsync(userContext: UserContext): Promise<HiddenPath[]> {
+    return getHiddenPaths(await this.accessControlService.getPathAccessAsync(userContext));
+  }
+
+  private async assertAccessAsync(path: string, permission: FilePermission, userContext: UserContext): Promise<void> {
+    if (!(await this.canAccessAsync(path, permission, userContext))) {
+      throw new AccessDeniedError(`No ${permission} permission for '${path}'`);
+    }
+  }
+
+  private async assertTreeAccessAsync(folderPath: string, permission: FilePermission, userContext: UserContext): Promise<void> {
+    const access = await this.accessControlService.getPathAccessAsync(userContext);
+
+    if (!canAccessTree(access, folderPath, permission)) {
+      throw new AccessDeniedError(`No ${permission} permission for everything in '${folderPath}'`);
+    }
+  }
+
   async uploadFileAsync(
     fileName: string,
     stream: Readable,
@@ -41,39 +155,95 @@ export class BlobStorageService {
     tags?: string[],
     metadata?: Record<string, string>
   ): Promise<string> {
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
     const bucketName = this.getBucketName(userContext);
     
-    // Prepare metadata
-    const metaData: Record<string, string> = {
-      'Content-Type': contentType || 'application/octet-stream',
-      'created-by': userContext.username,
-      'created-at': new Date().toISOString(),
-      ...metadata
-    };
-
     // Upload file
-    await this.client.putObject(bucketName, fileName, stream, undefined, metaData);
+    await this.putObjectStreamAsync(bucketName, fileName, stream, this.buildObjectMetadata(userContext, contentType, metadata));
 
     // Set tags if provided
     if (tags && tags.length > 0) {
-      const tagMap: Record<string, string> = {};
-      tags.forEach((tag, index) => {
-        tagMap[`tag-${index}`] = tag;
-      });
-      await this.client.setObjectTagging(bucketName, fileName, tagMap);
+      await this.client.setObjectTagging(bucketName, fileName, this.toTagMap(tags));
     }
 
+    await this.indexObjectAsync(bucketName, fileName);
+
     return fileName;
   }
 
-  async downloadFileAsync(fileName: string, userContext: UserContext): Promise<Readable> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    // Admin users can access both buckets
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
+  async beginMultipartUploadAsync(
+    fileName: string,
+    userContext: UserContext,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<{ bucket: string; uploadId: string }> {
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
+    const bucketName = this.getBucketName(userContext);
+
+    const uploadId = await this.client.initiateNewMultipartUpload(
+      bucketName,
+      fileName,
+      this.toObjectHeaders(this.buildObjectMetadata(userContext, contentType, metadata))
+    );
+
+    return { bucket: bucketName, uploadId };
+  }
+
+  async uploadMultipartPartAsync(
+    bucket: string,
+    fileName: string,
+    uploadId: string,
+    partNumber: number,
+    payload: Buffer
+  ): Promise<string> {
+    const result = await this.client.uploadPart({
+      bucketName: bucket,
+      objectName: fileName,
+      uploadID: uploadId,
+      partNumber,
+      headers: { 'Content-Length': payload.length }
+    }, payload);
+
+    return result.etag;
+  }
+
+  async completeMultipartUploadAsync(
+    bucket: string,
+    fileName: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[],
+    userContext: UserContext,
+    tags: string[] = []
+  ): Promise<string | undefined> {
+    // Grants may have changed while the parts were being sent
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
+
+    const result = await this.client.completeMultipartUpload(
+      bucket,
+      fileName,
+      uploadId,
+      parts.map(part => ({ part: part.partNumber, etag: part.etag }))
+    );
+
+    if (tags.length > 0) {
+      await this.client.setObjectTagging(bucket, fileName, this.toTagMap(tags));
     }
 
+    await this.indexObjectAsync(bucket, fileName);
+
+    return result.versionId || undefined;
+  }
+
+  async abortMultipartUploadAsync(bucket: string, fileName: string, uploadId: string): Promise<void> {
+    await this.client.abortMultipartUpload(bucket, fileName, uploadId);
+  }
+
+  async downloadFileAsync(fileName: string, userContext: UserContext): Promise<Readable> {
+    // Unreadable files are reported exactly like missing ones
+    const buckets = await this.canAccessAsync(fileName, FilePermission.Read, userContext)
+      ? this.getReadableBuckets(userContext)
+      : [];
+
     for (const bucket of buckets) {
       try {
         return await this.client.getObject(bucket, fileName);
@@ -91,11 +261,9 @@ export class BlobStorageService {
     versionId: string,
     userContext: UserContext
   ): Promise<Readable> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
-    }
+    const buckets = await this.canAccessAsync(fileName, FilePermission.Read, userContext)
+      ? this.getReadableBuckets(userContext)
+      : [];
 
     for (const bucket of buckets) {
       try {
@@ -109,12 +277,12 @@ export class BlobStorageService {
   }
 
   async fileExistsAsync(fileName: string, userContext: UserContext): Promise<boolean> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return false;
     }
 
+    const buckets = this.getReadableBuckets(userContext);
+
     for (const bucket of buckets) {
       try {
         await this.client.statObject(bucket, fileName);
@@ -128,99 +296,357 @@ export class BlobStorageService {
   }
 
   async deleteFileAsync(fileName: string, userContext: UserContext): Promise<boolean> {
-    const buckets = [this.workingBucket, this.stableBucket];
+    await this.assertAccessAsync(fileName, FilePermission.Delete, userContext);
+    const buckets = this.getDeletableBuckets(userContext);
     let deleted = false;
 
     for (const bucket of buckets) {
-      try {
-        await this.client.removeObject(bucket, fileName);
+      const versioned = await this.isVersioningEnabledAsync(bucket);
+
+      if (await this.moveToRecycleBinAsync(bucket, fileName, versioned, userContext)) {
         deleted = true;
-      } catch (error) {
-        // File might not exist in this bucket
       }
     }
 
     return deleted;
   }
 
-  async listFilesAsync(userContext: UserContext): Promise<string[]> {
-    const files: string[] = [];
-    const buckets = [this.getBucketName(userContext)];
+  async listDeletedFilesAsync(userContext: UserContext, query: DeletedFileQuery = {}): Promise<DeletedFile[]> {
+    const access = await this.accessControlService.getPathAccessAsync(userContext);
+    const files = await this.database.getDeletedFiles(this.getReadableBuckets(userContext), query);
+
+    return files.filter(file => canAccessPath(access, file.fileName, FilePermission.Read));
+  }
+
+  async getDeletedFileAsync(id: string, userContext: UserContext): Promise<DeletedFile | null> {
+    const file = await this.database.getDeletedFileById(id);
+
+    // Entries the user can't see are reported exactly like missing ones
+    if (
+      !file ||
+      !this.getReadableBuckets(userContext).includes(file.bucket) ||
+      !(await this.canAccessAsync(file.fileName, FilePermission.Read, userContext))
+    ) {
+      return null;
+    }
+
+    return file;
+  }
+
+  async restoreDeletedFileAsync(file: DeletedFile, userContext: UserContext): Promise<void> {
+    await this.assertAccessAsync(file.fileName, FilePermission.Write, userContext);
+
+    // A file uploaded under the same name since the delete is never overwritten
+    if (await this.objectExistsAsync(file.bucket, file.fileName)) {
+      throw new RecycleBinError(`A file named '${file.fileName}' already exists`);
+    }
+
+    if (file.deleteMarkerVersionId) {
+      // Dropping the delete marker makes the version it hid the latest again, as if it was never deleted
+      await this.client.removeObject(file.bucket, file.fileName, { versionId: file.deleteMarkerVersionId });
+
+      // A later delete leaves its own marker on top, so the version is copied over it instead
+      if (file.versionId && !(await this.objectExistsAsync(file.bucket, file.fileName))) {
+        await this.client.copyObject(
+          new Minio.CopySourceOptions({ Bucket: file.bucket, Object: file.fileName, VersionID: file.versionId }),
+          new Minio.CopyDestinationOptions({ Bucket: file.bucket, Object: file.fileName })
+        );
+      }
+    } else if (file.recycleKey) {
+      // The copy keeps the metadata and tags the file had when it was deleted
+      await this.client.copyObject(
+        new Minio.CopySourceOptions({ Bucket: this.recycleBucket, Object: file.recycleKey }),
+        new Minio.CopyDestinationOptions({ Bucket: file.bucket, Object: file.fileName })
+      );
+      await this.client.removeObject(this.recycleBucket, file.recycleKey);
+    }
+
+    await this.database.deleteDeletedFile(file.id);
+    await this.indexObjectAsync(file.bucket, file.fileName);
+  }
+
+  async purgeDeletedFileAsync(file: DeletedFile): Promise<void> {
+    if (file.recycleKey) {
+      await this.client.removeObject(this.recycleBucket, file.recycleKey);
+    } else if (file.deleteMarkerVersionId) {
+      // Versions are listed newest first, so the marker is followed by everything the delete hid
+      const versionIds: string[] = [];
+      let markerFound = false;
+      const stream = this.client.listObjects(file.bucket, file.fileName, true, { IncludeVersion: true });
+
+      for await (const obj of stream) {
+        if (obj.name !== file.fileName) {
+          continue;
+        }
+
+        markerFound = markerFound || obj.versionId === file.deleteMarkerVersionId;
+        if (markerFound && obj.versionId) {
+          versionIds.push(obj.versionId);
+        }
+      }
+
+      if (versionIds.length > 0) {
+        const results = await this.client.removeObjects(
+          file.bucket,
+          versionIds.map(versionId => ({ name: file.fileName, versionId }))
+        );
+        const failure = results.find(result => result?.Error);
+        if (failure?.Error) {
+          throw new Error(`Failed to remove version ${failure.Error.VersionId} of ${file.fileName}: ${failure.Error.Message}`);
+        }
+      }
+
+      // Earlier deletes of the same file were hidden by older markers, which are gone now as well
+      for (const earlier of await this.database.getDeletedFilesForObject(file.bucket, file.fileName)) {
+        if (earlier.deleteMarkerVersionId && earlier.deletedAt < file.deletedAt) {
+          await this.database.deleteDeletedFile(earlier.id);
+        }
+      }
+    }
+
+    await this.database.deleteDeletedFile(file.id);
+  }
+
+  // Purges the recycle bin entries whose retention has passed
+  async purgeExpiredDeletedFilesAsync(): Promise<number> {
+    const expired = await this.database.getExpiredDeletedFiles(new Date().toISOString());
+    let purged = 0;
+
+    for (const file of expired) {
+      try {
+        await this.purgeDeletedFileAsync(file);
+        purged++;
+      } catch (error) {
+        // The entry stays, so the next run tries again
+        console.error(`Error purging deleted file ${file.bucket}/${file.fileName}:`, error);
+      }
+    }
+
+    return purged;
+  }
+
+  async listFilesAsync(userContext: UserContext, prefix = '', recursive = true): Promise<string[]> {
+    const entries = await this.listFilesWithMetadataAsync(userContext, prefix, recursive);
+    return [...new Set(entries.map(entry => entry.fileName))];
+  }
+
+  async listFilesWithMetadataAsync(userContext: UserContext, prefix = '', recursive = true): Promise<BlobMetadata[]> {
+    const files: BlobMetadata[] = [];
+    const folders = new Set<string>();
+    const buckets = this.getReadableBuckets(userContext);
+
+    // Served from the metadata index instead of a statObject per object
+    const entries = await this.database.getIndexedObjects(buckets, prefix, await this.getHiddenPathsAsync(userContext));
+
+    for (const entry of entries) {
+      const relativeName = entry.fileName.slice(prefix.length);
+      const separator = relativeName.indexOf('/');
+
+      if (!recursive && separator >= 0 && separator < relativeName.length - 1) {
+        // Nested deeper than the requested level, report the immediate sub-folder
+        folders.add(prefix + relativeName.slice(0, separator + 1));
+      } else if (entry.fileName.endsWith('/')) {
+        // Zero-byte folder marker created by createFolderAsync
+        if (entry.fileName !== prefix) {
+          folders.add(entry.fileName);
+        }
+      } else {
+        files.push(this.toBlobMetadata(entry));
+      }
+    }
+
+    const directories: BlobMetadata[] = [...folders].sort().map(folder => ({
+      fileName: folder,
+      size: 0,
+      lastModified: new Date(0).toISOString(),
+      etag: '',
+      isDir: true,
+      isLatest: true
+    }));
+
+    return [...directories, ...files];
+  }
+
+  async queryFilesAsync(query: FileQuery, userContext: UserContext): Promise<FileQueryResult> {
+    const buckets = this.getReadableBuckets(userContext);
+
+    const cursorKey = query.cursor ? decodeCursor(query.cursor) || undefined : undefined;
+    const result = await this.database.queryIndexedObjects(
+      buckets,
+      query,
+      cursorKey,
+      await this.getHiddenPathsAsync(userContext)
+    );
+    const items = result.items.map(entry => this.toBlobMetadata(entry));
+    const last = items[items.length - 1];
+
+    const sortKey = (file: BlobMetadata): (string | number)[] => {
+      switch (query.sortBy) {
+        case 'size':
+          return [file.size, file.fileName, file.etag];
+        case 'name':
+          return [file.fileName, file.etag];
+        case 'createdBy':
+          return [file.createdBy || '', file.fileName, file.etag];
+        default:
+          return [file.lastModified, file.fileName, file.etag];
+      }
+    };
+
+    return {
+      items,
+      total: result.total,
+      nextCursor: result.hasMore && last ? encodeCursor(sortKey(last)) : undefined
+    };
+  }
+
+  async searchContentAsync(
+    text: string,
+    userContext: UserContext,
+    limit: number,
+    tagExpression?: TagExpression
+  ): Promise<SearchResult[]> {
+    const matchExpression = buildFullTextQuery(text);
+
+    if (!matchExpression) {
+      return [];
+    }
+
+    const matches = await this.database.searchIndexedContent(
+      this.getReadableBuckets(userContext),
+      matchExpression,
+      limit,
+      tagExpression,
+      await this.getHiddenPathsAsync(userContext)
+    );
+
+    return matches.map(match => ({
+      file: this.toBlobMetadata(match.entry),
+      snippet: match.snippet,
+      rank: match.rank
+    }));
+  }
+
+  async searchByTagsAsync(expression: TagExpression, userContext: UserContext, limit: number): Promise<BlobMetadata[]> {
+    const entries = await this.database.queryIndexedObjectsByTags(
+      this.getReadableBuckets(userContext),
+      expression,
+      limit,
+      await this.getHiddenPathsAsync(userContext)
+    );
+    return entries.map(entry => this.toBlobMetadata(entry));
+  }
+
+  async createFolderAsync(folderPath: string, userContext: UserContext): Promise<string> {
+    await this.assertAccessAsync(folderPath, FilePermission.Write, userContext);
+    const bucketName = this.getBucketName(userContext);
+
+    await this.client.putObject(bucketName, folderPath, Buffer.alloc(0), 0, {
+      'Content-Type': 'application/x-directory',
+      'created-by': userContext.username,
+      'created-at': new Date().toISOString()
+    });
+    await this.indexObjectAsync(bucketName, folderPath);
+
+    return folderPath;
+  }
+
+  async folderExistsAsync(folderPath: string, userContext: UserContext): Promise<boolean> {
+    const entries = await this.listFilesAsync(userContext, folderPath, false);
     
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
+    if (entries.length > 0) {
+      return true;
     }
 
+    // An empty folder only consists of its marker object
+    return this.fileExistsAsync(folderPath, userContext);
+  }
+
+  async moveFolderAsync(sourcePath: string, destinationPath: string, userContext: UserContext): Promise<number> {
+    await this.assertTreeAccessAsync(sourcePath, FilePermission.Write, userContext);
+    await this.assertTreeAccessAsync(destinationPath, FilePermission.Write, userContext);
+
+    // Admins reorganise both buckets so working and stable keep the same layout
+    const buckets = userContext.role === 3
+      ? [this.workingBucket, this.stableBucket]
+      : [this.getBucketName(userContext)];
+    let moved = 0;
+
     for (const bucket of buckets) {
+      const objectNames: string[] = [];
+
       try {
-        const stream = this.client.listObjects(bucket, '', true);
-        
+        const stream = this.client.listObjects(bucket, sourcePath, true);
+
         for await (const obj of stream) {
-          if (obj.name && !files.includes(obj.name)) {
-            files.push(obj.name);
+          if (obj.name) {
+            objectNames.push(obj.name);
           }
         }
       } catch (error) {
         // Bucket might not exist or be accessible
+        continue;
+      }
+
+      // Only the latest version is carried over; history stays with the old key
+      for (const objectName of objectNames) {
+        const targetName = destinationPath + objectName.slice(sourcePath.length);
+
+        await this.client.copyObject(
+          new Minio.CopySourceOptions({ Bucket: bucket, Object: objectName }),
+          new Minio.CopyDestinationOptions({ Bucket: bucket, Object: targetName })
+        );
+        await this.client.removeObject(bucket, objectName);
+        await this.database.removeIndexedObject(bucket, objectName);
+        await this.indexObjectAsync(bucket, targetName);
+        moved++;
       }
     }
 
-    return files;
+    return moved;
   }
 
-  async listFilesWithMetadataAsync(userContext: UserContext): Promise<BlobMetadata[]> {
-    const files: BlobMetadata[] = [];
-    const buckets = [this.getBucketName(userContext)];
-    
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
-    }
+  async deleteFolderAsync(folderPath: string, userContext: UserContext): Promise<number> {
+    await this.assertTreeAccessAsync(folderPath, FilePermission.Delete, userContext);
+    const buckets = this.getDeletableBuckets(userContext);
+    let deleted = 0;
 
     for (const bucket of buckets) {
+      const objectNames: string[] = [];
+
       try {
-        const stream = this.client.listObjects(bucket, '', true);
-        
+        const stream = this.client.listObjects(bucket, folderPath, true);
+
         for await (const obj of stream) {
           if (obj.name) {
-            try {
-              const stat = await this.client.statObject(bucket, obj.name);
-              const metadata: BlobMetadata = {
-                fileName: obj.name,
-                size: obj.size || 0,
-                lastModified: obj.lastModified?.toISOString() || new Date().toISOString(),
-                etag: obj.etag || '',
-                contentType: stat.metaData?.['content-type'],
-                isDir: false,
-                isLatest: true,
-                category: stat.metaData?.['category'],
-                created: stat.metaData?.['created'],
-                updated: stat.metaData?.['updated'],
-                reviewed: stat.metaData?.['reviewed'],
-                tested: stat.metaData?.['tested'],
-                createdBy: stat.metaData?.['created-by']
-              };
-              
-              files.push(metadata);
-            } catch (error) {
-              // Skip files we can't get metadata for
-            }
+            objectNames.push(obj.name);
           }
         }
       } catch (error) {
-        // Bucket might not exist or be accessible
+        // Folder might not exist in this bucket
+        continue;
+      }
+
+      // Every file goes to the recycle bin on its own, so files can be restored one by one
+      const versioned = await this.isVersioningEnabledAsync(bucket);
+
+      for (const objectName of objectNames) {
+        if (await this.moveToRecycleBinAsync(bucket, objectName, versioned, userContext)) {
+          deleted++;
+        }
       }
     }
 
-    return files;
+    return deleted;
   }
 
   async getFileMetadataAsync(fileName: string, userContext: UserContext): Promise<BlobMetadata | null> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return null;
     }
 
+    const buckets = this.getReadableBuckets(userContext);
+
     for (const bucket of buckets) {
       try {
         const stat = await this.client.statObject(bucket, fileName);
@@ -230,15 +656,11 @@ export class BlobStorageService {
           size: stat.size,
           lastModified: stat.lastModified.toISOString(),
           etag: stat.etag,
+          versionId: stat.versionId || undefined,
           contentType: stat.metaData?.['content-type'],
           isDir: false,
           isLatest: true,
-          category: stat.metaData?.['category'],
-          created: stat.metaData?.['created'],
-          updated: stat.metaData?.['updated'],
-          reviewed: stat.metaData?.['reviewed'],
-          tested: stat.metaData?.['tested'],
-          createdBy: stat.metaData?.['created-by']
+          ...this.mapUserMetadata(stat.metaData)
         };
       } catch (error) {
         continue;
@@ -249,26 +671,20 @@ export class BlobStorageService {
   }
 
   async getFileTagsAsync(fileName: string, userContext: UserContext): Promise<string[]> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    // Admin users can access both buckets, so check both
-    if (userContext.role === 3) {
-      buckets.push(this.workingBucket); // Add the other bucket for admin users
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return [];
     }
 
+    const buckets = this.getReadableBuckets(userContext);
+
     for (const bucket of buckets) {
+      const indexed = await this.database.getIndexedObject(bucket, fileName);
+      if (indexed) {
+        return indexed.tags;
+      }
+
       try {
-        const result = await this.client.getObjectTagging(bucket, fileName);
-        
-        if (result && typeof result === 'object') {
-          // MinIO returns tags as key-value pairs where we stored them as "tag-0": "tagname"
-          // We need to extract the values (the actual tag names)
-          const tags = Object.values(result)
-            .filter((value: unknown): value is string => typeof value === 'string' && (value as string).length > 0)
-            .map(String);
-          return tags;
-        }
-        return [];
+        return await this.readTagsAsync(bucket, fileName);
       } catch (error) {
         // File doesn't exist in this bucket or has no tags, try next bucket
         continue;
@@ -283,15 +699,12 @@ export class BlobStorageService {
     tags: string[],
     userContext: UserContext
   ): Promise<boolean> {
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
     const bucketName = this.getBucketName(userContext);
     
     try {
-      const tagMap: Record<string, string> = {};
-      tags.forEach((tag, index) => {
-        tagMap[`tag-${index}`] = tag;
-      });
-      
-      await this.client.setObjectTagging(bucketName, fileName, tagMap);
+      await this.client.setObjectTagging(bucketName, fileName, this.toTagMap(tags));
+      await this.indexObjectAsync(bucketName, fileName);
       return true;
     } catch (error) {
       return false;
@@ -299,36 +712,70 @@ export class BlobStorageService {
   }
 
   async deleteFileTagsAsync(fileName: string, userContext: UserContext): Promise<boolean> {
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
     const bucketName = this.getBucketName(userContext);
     
     try {
       await this.client.setObjectTagging(bucketName, fileName, {});
+      await this.database.setIndexedObjectTags(bucketName, fileName, []);
       return true;
     } catch (error) {
       return false;
     }
   }
 
+  async getObjectsWithTagAsync(tag: string): Promise<{ bucket: string; fileName: string }[]> {
+    return this.database.getIndexedObjectsWithTag(tag);
+  }
+
+  async replaceObjectTagAsync(bucket: string, fileName: string, sourceTag: string, targetTag: string): Promise<boolean> {
+    // Read from MinIO rather than the index so a stale index entry can't drop tags
+    const tags = await this.readTagsAsync(bucket, fileName);
+
+    if (!tags.includes(sourceTag)) {
+      await this.indexObjectAsync(bucket, fileName);
+      return false;
+    }
+
+    const replaced = [...new Set(tags.map(tag => tag === sourceTag ? targetTag : tag))];
+    const tagMap: Record<string, string> = {};
+    replaced.forEach((tag, index) => {
+      tagMap[`tag-${index}`] = tag;
+    });
+
+    await this.client.setObjectTagging(bucket, fileName, tagMap);
+    await this.database.setIndexedObjectTags(bucket, fileName, replaced);
+    return true;
+  }
+
   async listFileVersionsAsync(fileName: string, userContext: UserContext): Promise<FileVersion[]> {
-    const buckets = [this.getBucketName(userContext)];
-    
-    if (userContext.role === 3) {
-      buckets.push(userContext.role <= 2 ? this.stableBucket : this.workingBucket);
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return [];
     }
 
+    const buckets = this.getReadableBuckets(userContext);
+
     for (const bucket of buckets) {
       try {
-        const stream = this.client.listObjects(bucket, fileName, true);
+        const stream = this.client.listObjects(bucket, fileName, true, { IncludeVersion: true });
         const versions: FileVersion[] = [];
         
         for await (const obj of stream) {
-          if (obj.name === fileName) {
+          if (obj.name === fileName && !obj.isDeleteMarker) {
+            // Who wrote a version is only kept in that version's own metadata
+            const stat = await this.client.statObject(bucket, fileName, obj.versionId ? { versionId: obj.versionId } : {});
+
             versions.push({
               versionId: obj.versionId || 'null',
               lastModified: obj.lastModified?.toISOString() || new Date().toISOString(),
               size: obj.size || 0,
               etag: obj.etag || '',
-              isLatest: obj.isLatest || false
+              // The listing reports this flag as text
+              isLatest: obj.isLatest === true || obj.isLatest === 'true',
+              createdBy: stat.metaData?.['created-by'],
+              createdAt: stat.metaData?.['created-at'],
+              comment: stat.metaData?.['version-comment'] ? decodeURIComponent(stat.metaData['version-comment']) : undefined,
+              restoredFromVersionId: stat.metaData?.['restored-from-version']
             });
           }
         }
@@ -346,6 +793,106 @@ export class BlobStorageService {
     return [];
   }
 
+  async restoreFileVersionAsync(
+    fileName: string,
+    versionId: string,
+    userContext: UserContext,
+    comment?: string
+  ): Promise<{ versionId?: string } | null> {
+    await this.assertAccessAsync(fileName, FilePermission.Write, userContext);
+    const bucketName = this.getBucketName(userContext);
+
+    // Only versions from the bucket the user writes to can become its latest version
+    let stat: Minio.BucketItemStat;
+    try {
+      stat = await this.client.statObject(bucketName, fileName, { versionId });
+    } catch (error) {
+      return null;
+    }
+
+    // The restored content keeps the file's current tags
+    const tagMap: Record<string, string> = {};
+    try {
+      const tags = await this.client.getObjectTagging(bucketName, fileName);
+      tags.forEach(tag => {
+        tagMap[tag.Key] = tag.Value;
+      });
+    } catch (error) {
+      // The file may have no current version left
+    }
+
+    const userMetadata = this.extractUserMetadata(stat.metaData);
+    userMetadata['created-by'] = userContext.username;
+    userMetadata['created-at'] = new Date().toISOString();
+    userMetadata['restored-from-version'] = versionId;
+    userMetadata['version-comment'] = encodeURIComponent(comment || `Restored from version ${versionId}`);
+
+    const result = await this.client.copyObject(
+      new Minio.CopySourceOptions({
+        Bucket: bucketName,
+        Object: fileName,
+        VersionID: versionId
+      }),
+      new Minio.CopyDestinationOptions({
+        Bucket: bucketName,
+        Object: fileName,
+        MetadataDirective: 'REPLACE',
+        UserMetadata: userMetadata,
+        UserTags: tagMap,
+        Headers: {
+          'Content-Type': stat.metaData?.['content-type'] || 'application/octet-stream'
+        }
+      })
+    );
+    const restoredVersionId = ('VersionId' in result && result.VersionId) || undefined;
+
+    // MinIO only replaces tags on copy when some are given, so an untagged file would get the old version's tags back
+    if (Object.keys(tagMap).length === 0) {
+      await this.client.setObjectTagging(bucketName, fileName, {}, restoredVersionId ? { versionId: restoredVersionId } : undefined);
+    }
+
+    await this.indexObjectAsync(bucketName, fileName);
+
+    return { versionId: restoredVersionId };
+  }
+
+  /**
+   * Reads a version (the latest when `versionId` is omitted) of a text file for comparison.
+   * Returns null when the version doesn't exist or isn't readable; throws a DiffError for binary or oversized files.
+   */
+  async getFileVersionTextAsync(
+    fileName: string,
+    versionId: string | undefined,
+    userContext: UserContext
+  ): Promise<{ versionId: string; text: string } | null> {
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return null;
+    }
+
+    for (const bucket of this.getReadableBuckets(userContext)) {
+      let stat: Minio.BucketItemStat;
+      try {
+        stat = await this.client.statObject(bucket, fileName, versionId ? { versionId } : {});
+      } catch (error) {
+        continue;
+      }
+
+      if (!this.isSearchableText(fileName, stat.metaData?.['content-type'], stat.size)) {
+        throw new DiffError(`Only Calcpad sources and text files up to ${MAX_INDEXED_CONTENT_BYTES / (1024 * 1024)} MB can be compared`);
+      }
+
+      const stream = await this.client.getObject(bucket, fileName, versionId ? { versionId } : {});
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+
+      return { versionId: stat.versionId || 'null', text: Buffer.concat(chunks).toString('utf8') };
+    }
+
+    return null;
+  }
+
   async getFileBase64Async(fileName: string, userContext: UserContext): Promise<string> {
     const stream = await this.downloadFileAsync(fileName, userContext);
     
@@ -368,6 +915,429 @@ export class BlobStorageService {
     });
   }
 
+  async getFileVersionInfoAsync(
+    fileName: string,
+    versionId: string | undefined,
+    userContext: UserContext
+  ): Promise<{ versionId?: string; etag: string } | null> {
+    if (!(await this.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return null;
+    }
+
+    const buckets = this.getReadableBuckets(userContext);
+
+    for (const bucket of buckets) {
+      try {
+        const stat = await this.client.statObject(bucket, fileName, versionId ? { versionId } : {});
+        return { versionId: stat.versionId || undefined, etag: stat.etag };
+      } catch (error) {
+        continue;
+      }
+    }
+
+    return null;
+  }
+
+  async getCurrentETagsAsync(fileName: string): Promise<string[]> {
+    const etags: string[] = [];
+
+    for (const bucket of [this.workingBucket, this.stableBucket]) {
+      try {
+        const stat = await this.client.statObject(bucket, fileName);
+        etags.push(stat.etag);
+      } catch (error) {
+        // File might not exist in this bucket
+      }
+    }
+
+    return etags;
+  }
+
+  async getWorkingFileVersionAsync(fileName: string): Promise<{ versionId?: string; etag: string } | null> {
+    try {
+      const stat = await this.client.statObject(this.workingBucket, fileName);
+      return { versionId: stat.versionId || undefined, etag: stat.etag };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Copies a working file to stable. With `etag` set, only content with that ETag is copied,
+   * so an unversioned file changed after the request was submitted fails with a ContentChangedError.
+   */
+  async promoteFileAsync(
+    fileName: string,
+    versionId: string | undefined,
+    etag: string | undefined,
+    promotion: PromotionInfo
+  ): Promise<string | undefined> {
+    const stat = await this.client.statObject(this.workingBucket, fileName, versionId ? { versionId } : {});
+
+    if (etag && stat.etag !== etag) {
+      throw new ContentChangedError(`'${fileName}' has changed since the promotion was requested`);
+    }
+
+    const tags = await this.client.getObjectTagging(this.workingBucket, fileName, versionId ? { versionId } : undefined);
+
+    // Carry the working metadata over and stamp it with the release information
+    const userMetadata = this.extractUserMetadata(stat.metaData);
+    userMetadata['release-note'] = encodeURIComponent(promotion.releaseNote);
+    userMetadata['requested-by'] = promotion.requestedBy;
+    userMetadata['promoted-by'] = promotion.approvedBy;
+    userMetadata['promoted-at'] = new Date().toISOString();
+    userMetadata['promoted-from-version'] = versionId || 'null';
+
+    const tagMap: Record<string, string> = {};
+    tags.forEach(tag => {
+      tagMap[tag.Key] = tag.Value;
+    });
+
+    let result: Awaited<ReturnType<Minio.Client['copyObject']>>;
+    try {
+      result = await this.client.copyObject(
+        new Minio.CopySourceOptions({
+          Bucket: this.workingBucket,
+          Object: fileName,
+          VersionID: versionId,
+          // Guards against an upload landing between the check above and the copy
+          MatchETag: etag
+        }),
+        new Minio.CopyDestinationOptions({
+          Bucket: this.stableBucket,
+          Object: fileName,
+          MetadataDirective: 'REPLACE',
+          UserMetadata: userMetadata,
+          UserTags: tagMap,
+          Headers: {
+            'Content-Type': stat.metaData?.['content-type'] || 'application/octet-stream'
+          }
+        })
+      );
+    } catch (error) {
+      if ((error as { code?: string }).code === 'PreconditionFailed') {
+        throw new ContentChangedError(`'${fileName}' has changed since the promotion was requested`);
+      }
+      throw error;
+    }
+
+    await this.indexObjectAsync(this.stableBucket, fileName);
+
+    return ('VersionId' in result && result.VersionId) || undefined;
+  }
+
+  async reconcileIndexAsync(): Promise<IndexReconciliationResult> {
+    const result: IndexReconciliationResult = { scanned: 0, updated: 0, removed: 0 };
+
+    for (const bucket of [this.workingBucket, this.stableBucket]) {
+      const indexed = new Map((await this.database.getIndexedObjects([bucket])).map(entry => [entry.fileName, entry]));
+      const withContent = await this.database.getIndexedContentFileNames(bucket);
+      const stream = this.client.listObjects(bucket, '', true);
+
+      for await (const obj of stream) {
+        if (!obj.name) {
+          continue;
+        }
+
+        result.scanned++;
+        const entry = indexed.get(obj.name);
+        indexed.delete(obj.name);
+
+        // Unchanged objects keep their index entry; tag-only changes made outside the API are not detected
+        const contentMissing = entry
+          && this.isSearchableText(entry.fileName, entry.contentType, entry.size)
+          && !withContent.has(entry.fileName);
+        if (entry && entry.etag === obj.etag && entry.size === obj.size && !contentMissing) {
+          continue;
+        }
+
+        await this.indexObjectAsync(bucket, obj.name);
+        result.updated++;
+      }
+
+      // Whatever is left was deleted behind the API's back
+      for (const fileName of indexed.keys()) {
+        await this.database.removeIndexedObject(bucket, fileName);
+        result.removed++;
+      }
+    }
+
+    return result;
+  }
+
+  private async indexObjectAsync(bucket: string, fileName: string): Promise<void> {
+    try {
+      const stat = await this.client.statObject(bucket, fileName);
+      const tags = await this.readTagsAsync(bucket, fileName);
+
+      await this.database.upsertIndexedObject({
+        bucket,
+        fileName,
+        size: stat.size,
+        lastModified: stat.lastModified.toISOString(),
+        etag: stat.etag,
+        versionId: stat.versionId || undefined,
+        contentType: stat.metaData?.['content-type'],
+        metadata: this.extractUserMetadata(stat.metaData),
+        tags
+      });
+
+      const content = this.isSearchableText(fileName, stat.metaData?.['content-type'], stat.size)
+        ? (await this.readObjectAsync(bucket, fileName)).toString('utf8')
+        : null;
+
+      await this.database.setIndexedObjectContent(bucket, fileName, content);
+    } catch (error) {
+      // The index is rebuilt on startup, so a failed update must not fail the operation itself
+      console.error(`Error indexing ${bucket}/${fileName}:`, error);
+    }
+  }
+
+  private async moveToRecycleBinAsync(
+    bucket: string,
+    fileName: string,
+    versioned: boolean,
+    userContext: UserContext
+  ): Promise<boolean> {
+    let stat: Minio.BucketItemStat;
+    try {
+      stat = await this.client.statObject(bucket, fileName);
+    } catch (error) {
+      // File doesn't exist in this bucket
+      return false;
+    }
+
+    let tags: string[] = [];
+    try {
+      tags = await this.readTagsAsync(bucket, fileName);
+    } catch (error) {
+      // Tags are only informational in the recycle bin
+    }
+
+    const id = crypto.randomUUID();
+    let deleteMarkerVersionId: string | undefined;
+    let recycleKey: string | undefined;
+
+    if (versioned) {
+      // The delete marker hides the file while all of its versions stay in place
+      await this.client.removeObject(bucket, fileName);
+      deleteMarkerVersionId = await this.findLatestDeleteMarkerAsync(bucket, fileName);
+    } else {
+      // Without versioning removing the object destroys it, so the content is moved to the recycle bucket first
+      recycleKey = `${id}/${fileName}`;
+      await this.client.copyObject(
+        new Minio.CopySourceOptions({ Bucket: bucket, Object: fileName }),
+        new Minio.CopyDestinationOptions({ Bucket: this.recycleBucket, Object: recycleKey })
+      );
+      await this.client.removeObject(bucket, fileName);
+    }
+
+    await this.database.removeIndexedObject(bucket, fileName);
+
+    const deletedAt = new Date();
+    await this.database.createDeletedFile({
+      id,
+      bucket,
+      fileName,
+      size: stat.size,
+      etag: stat.etag,
+      versionId: stat.versionId || undefined,
+      contentType: stat.metaData?.['content-type'],
+      tags,
+      deleteMarkerVersionId,
+      recycleKey,
+      deletedBy: userContext.username,
+      deletedAt: deletedAt.toISOString(),
+      expiresAt: new Date(deletedAt.getTime() + this.recycleBinRetentionDays * 24 * 60 * 60 * 1000).toISOString()
+    });
+
+    return true;
+  }
+
+  private async findLatestDeleteMarkerAsync(bucket: string, fileName: string): Promise<string | undefined> {
+    const stream = this.client.listObjects(bucket, fileName, true, { IncludeVersion: true });
+
+    for await (const obj of stream) {
+      if (obj.name === fileName && obj.isDeleteMarker && (obj.isLatest === true || obj.isLatest === 'true')) {
+        return obj.versionId || undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async isVersioningEnabledAsync(bucket: string): Promise<boolean> {
+    try {
+      const configuration = await this.client.getBucketVersioning(bucket);
+      // A suspended bucket overwrites its null version on delete, so it counts as unversioned
+      return configuration?.Status === 'Enabled';
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async objectExistsAsync(bucket: string, fileName: string): Promise<boolean> {
+    try {
+      await this.client.statObject(bucket, fileName);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async putObjectStreamAsync(
+    bucket: string,
+    fileName: string,
+    stream: Readable,
+    metaData: Record<string, string>
+  ): Promise<void> {
+    // putObject buffers a stream of unknown length completely, so larger files go through a multipart upload here
+    let buffered: Buffer[] = [];
+    let bufferedBytes = 0;
+    let uploadId: string | undefined;
+    const etags: { part: number; etag: string }[] = [];
+
+    const uploadPartAsync = async (): Promise<void> => {
+      const part = Buffer.concat(buffered);
+      buffered = [];
+      bufferedBytes = 0;
+
+      uploadId = uploadId || await this.client.initiateNewMultipartUpload(bucket, fileName, this.toObjectHeaders(metaData));
+      const partNumber = etags.length + 1;
+      etags.push({ part: partNumber, etag: await this.uploadMultipartPartAsync(bucket, fileName, uploadId, partNumber, part) });
+    };
+
+    try {
+      for await (const chunk of stream) {
+        buffered.push(chunk as Buffer);
+        bufferedBytes += (chunk as Buffer).length;
+
+        if (bufferedBytes >= UPLOAD_PART_SIZE) {
+          await uploadPartAsync();
+        }
+      }
+
+      if (!uploadId) {
+        // Smaller than one part, a single request is enough
+        await this.client.putObject(bucket, fileName, Buffer.concat(buffered), bufferedBytes, metaData);
+        return;
+      }
+
+      if (bufferedBytes > 0) {
+        await uploadPartAsync();
+      }
+      await this.client.completeMultipartUpload(bucket, fileName, uploadId, etags);
+    } catch (error) {
+      if (uploadId) {
+        await this.client.abortMultipartUpload(bucket, fileName, uploadId).catch(abortError => {
+          console.error(`Error aborting multipart upload of ${bucket}/${fileName}:`, abortError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  private buildObjectMetadata(
+    userContext: UserContext,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Record<string, string> {
+    // The author fields come last so caller-supplied metadata can't claim another author
+    return {
+      ...metadata,
+      'Content-Type': contentType || 'application/octet-stream',
+      'created-by': userContext.username,
+      'created-at': new Date().toISOString()
+    };
+  }
+
+  private toTagMap(tags: string[]): Record<string, string> {
+    const tagMap: Record<string, string> = {};
+    tags.forEach((tag, index) => {
+      tagMap[`tag-${index}`] = tag;
+    });
+    return tagMap;
+  }
+
+  // Same header mapping putObject applies to its metadata argument
+  private toObjectHeaders(metaData: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(metaData)) {
+      headers[key.toLowerCase() === 'content-type' ? 'Content-Type' : `X-Amz-Meta-${key}`] = value;
+    }
+
+    return headers;
+  }
+
+  private isSearchableText(fileName: string, contentType: string | undefined, size: number): boolean {
+    const isText = TEXT_FILE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension))
+      || (contentType || '').startsWith('text/');
+    return isText && size <= MAX_INDEXED_CONTENT_BYTES;
+  }
+
+  private async readObjectAsync(bucket: string, fileName: string): Promise<Buffer> {
+    const stream = await this.client.getObject(bucket, fileName);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private toBlobMetadata(entry: IndexedObject): BlobMetadata {
+    return {
+      fileName: entry.fileName,
+      size: entry.size,
+      lastModified: entry.lastModified,
+      etag: entry.etag,
+      versionId: entry.versionId,
+      contentType: entry.contentType,
+      isDir: false,
+      isLatest: true,
+      tags: entry.tags,
+      ...this.mapUserMetadata(entry.metadata)
+    };
+  }
+
+  private extractUserMetadata(metaData?: Record<string, string>): Record<string, string> {
+    const userMetadata: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(metaData || {})) {
+      if (key !== 'content-type' && !key.startsWith('x-amz-')) {
+        userMetadata[key] = String(value);
+      }
+    }
+
+    return userMetadata;
+  }
+
+  private async readTagsAsync(bucket: string, fileName: string): Promise<string[]> {
+    const result = await this.client.getObjectTagging(bucket, fileName);
+
+    // MinIO returns a { Key, Value } list where we stored them as "tag-0": "tagname"
+    // We need to extract the values (the actual tag names)
+    return result
+      .map(tag => String(tag.Value ?? ''))
+      .filter(value => value.length > 0);
+  }
+
+  private mapUserMetadata(metaData?: Record<string, string>): Partial<BlobMetadata> {
+    return {
+      category: metaData?.['category'],
+      created: metaData?.['created'],
+      updated: metaData?.['updated'],
+      reviewed: metaData?.['reviewed'],
+      tested: metaData?.['tested'],
+      createdBy: metaData?.['created-by'],
+      releaseNote: metaData?.['release-note'] ? decodeURIComponent(metaData['release-note']) : undefined,
+      promotedBy: metaData?.['promoted-by'],
+      promotedAt: metaData?.['promoted-at']
+    };
+  }
+
   // Bucket management methods for initialization
   async bucketExists(bucketName: string): Promise<boolean> {
     try {
@@ -389,10 +1359,7 @@ export class BlobStorageService {
 
   async enableVersioning(bucketName: string): Promise<void> {
     try {
-      // MinIO client doesn't have a direct method for enabling versioning
-      // This would typically be done via MinIO admin API or mc command
-      // For now, we'll log this as a note for manual configuration
-      console.log(`Note: Versioning should be enabled for bucket ${bucketName} via MinIO admin interface`);
+      await this.client.setBucketVersioning(bucketName, { Status: 'Enabled' });
     } catch (error) {
       console.error(`Error enabling versioning for bucket ${bucketName}:`, error);
       throw error;
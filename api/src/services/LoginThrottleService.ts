@@ -0,0 +1,103 @@
+import { Database } from '../database';
+import { LockoutPolicy, LockoutScope, LockoutEvent, LoginFailureCounter, LoginThrottleStatus } from '../models';
+
+const MAX_PROGRESSIVE_DELAY_SECONDS = 30;
+const LOCKOUT_EVENT_LIMIT = 200;
+
+export class LoginThrottleService {
+  private database: Database;
+  private policy: LockoutPolicy;
+
+  constructor(database: Database, policy: LockoutPolicy) {
+    this.database = database;
+    this.policy = policy;
+  }
+
+  async checkAsync(username: string, ipAddress: string): Promise<LoginThrottleStatus> {
+    const now = Date.now();
+    const userFailure = await this.database.getLoginFailure(LockoutScope.Username, this.normalize(username));
+    const ipFailure = await this.database.getLoginFailure(LockoutScope.IpAddress, ipAddress);
+
+    const lockedUntil = Math.max(this.getLockedUntil(userFailure, now), this.getLockedUntil(ipFailure, now));
+    if (lockedUntil > now) {
+      return { allowed: false, lockedOut: true, retryAfterSeconds: Math.ceil((lockedUntil - now) / 1000) };
+    }
+
+    // Each consecutive failure for a username doubles the wait before the next attempt is accepted.
+    // Addresses only get the hard lockout, since many users may share one behind a proxy or NAT.
+    if (userFailure && userFailure.failedCount > 0) {
+      const delaySeconds = Math.min(2 ** (userFailure.failedCount - 1), MAX_PROGRESSIVE_DELAY_SECONDS);
+      const nextAttemptAt = new Date(userFailure.lastFailedAt).getTime() + delaySeconds * 1000;
+
+      if (nextAttemptAt > now) {
+        return { allowed: false, lockedOut: false, retryAfterSeconds: Math.ceil((nextAttemptAt - now) / 1000) };
+      }
+    }
+
+    return { allowed: true, lockedOut: false, retryAfterSeconds: 0 };
+  }
+
+  async recordFailureAsync(username: string, ipAddress: string): Promise<LockoutEvent[]> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - this.policy.failureWindowMinutes * 60 * 1000).toISOString();
+
+    await this.database.deleteStaleLoginFailures(windowStart, now.toISOString());
+
+    const events: LockoutEvent[] = [];
+    const subjects: [LockoutScope, string, number][] = [
+      [LockoutScope.Username, this.normalize(username), this.policy.maxFailedAttempts],
+      [LockoutScope.IpAddress, ipAddress, this.policy.maxFailedAttemptsPerIp]
+    ];
+
+    for (const [scope, subject, maxFailedAttempts] of subjects) {
+      await this.database.recordLoginFailure(scope, subject, now.toISOString(), windowStart);
+      const failure = await this.database.getLoginFailure(scope, subject);
+
+      if (failure && maxFailedAttempts > 0 && failure.failedCount >= maxFailedAttempts) {
+        const lockedUntil = new Date(now.getTime() + this.policy.lockoutMinutes * 60 * 1000).toISOString();
+
+        await this.database.lockLoginSubject(scope, subject, lockedUntil);
+        events.push(await this.database.createLockoutEvent({
+          scope,
+          subject,
+          ipAddress,
+          failedAttempts: failure.failedCount,
+          lockedAt: now.toISOString(),
+          lockedUntil
+        }));
+      }
+    }
+
+    return events;
+  }
+
+  async recordSuccessAsync(username: string): Promise<void> {
+    // The address counter is left alone so one valid account can't be used to reset it
+    await this.database.clearLoginFailures(LockoutScope.Username, this.normalize(username));
+  }
+
+  async unlockUserAsync(username: string, unlockedBy: string): Promise<boolean> {
+    const subject = this.normalize(username);
+    const failure = await this.database.getLoginFailure(LockoutScope.Username, subject);
+    const wasLocked = this.getLockedUntil(failure, Date.now()) > Date.now();
+
+    await this.database.clearLoginFailures(LockoutScope.Username, subject);
+    await this.database.markLockoutEventsUnlocked(LockoutScope.Username, subject, unlockedBy, new Date().toISOString());
+
+    return wasLocked;
+  }
+
+  async getLockoutEventsAsync(): Promise<LockoutEvent[]> {
+    return this.database.getLockoutEvents(LOCKOUT_EVENT_LIMIT);
+  }
+
+  private getLockedUntil(failure: LoginFailureCounter | null, now: number): number {
+    const lockedUntil = failure?.lockedUntil ? new Date(failure.lockedUntil).getTime() : 0;
+    return lockedUntil > now ? lockedUntil : 0;
+  }
+
+  // Usernames are matched case-insensitively so case variations share one counter
+  private normalize(username: string): string {
+    return username.trim().toLowerCase();
+  }
+}
\ No newline at end of file
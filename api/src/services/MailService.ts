@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailConfig, MailMessage } from '../models';
+
+export interface Mailer {
+  sendAsync(message: MailMessage): Promise<void>;
+}
+
+// Writes each message as an .eml file instead of delivering it, for development and testing
+export class OutboxMailer implements Mailer {
+  private outboxPath: string;
+  private from: string;
+  private transporter: Transporter;
+
+  constructor(outboxPath: string, from: string) {
+    this.outboxPath = outboxPath;
+    this.from = from;
+    this.transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async sendAsync(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+
+    await fs.mkdir(this.outboxPath, { recursive: true });
+    await fs.writeFile(
+      path.join(this.outboxPath, `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`),
+      info.message as Buffer
+    );
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  private from: string;
+  private transporter: Transporter;
+
+  constructor(config: MailConfig) {
+    this.from = config.from;
+    this.transporter = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
+      auth: config.smtp.username ? { user: config.smtp.username, pass: config.smtp.password } : undefined
+    });
+  }
+
+  async sendAsync(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export function createMailer(config: MailConfig): Mailer {
+  return config.transport === 'smtp' ? new SmtpMailer(config) : new OutboxMailer(config.outboxPath, config.from);
+}
\ No newline at end of file
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { UserService } from './UserService';
+import { OIDCConfig, AuthResponse, ExternalIdentity, UserRole } from '../models';
+import { generateRandomToken, createCodeChallenge, hashToken, tokenHashesMatch, mapExternalRoles } from '../utils';
+
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface OidcTokenResponse {
+  id_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface PendingLogin {
+  codeVerifier: string;
+  nonce: string;
+  // Hash of the key kept in the browser that started the login
+  browserKeyHash: string;
+  createdAt: number;
+}
+
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const PROVIDER_REQUEST_TIMEOUT_MS = 10 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export class OidcService {
+  private config: OIDCConfig;
+  private userService: UserService;
+  private discovery: OidcDiscoveryDocument | null = null;
+  private signingKeys = new Map<string, crypto.KeyObject>();
+  private pendingLogins = new Map<string, PendingLogin>();
+  private redirectUri: string;
+
+  constructor(config: OIDCConfig, userService: UserService, publicUrl: string) {
+    this.config = config;
+    this.userService = userService;
+    // Never derived from the request, whose Host header the client controls
+    this.redirectUri = config.redirectUri || `${publicUrl.replace(/\/+$/, '')}${config.callbackPath}`;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getCallbackPath(): string {
+    return this.config.callbackPath;
+  }
+
+  getPostLoginRedirectUri(): string | undefined {
+    return this.config.postLoginRedirectUri;
+  }
+
+  async createAuthorizationUrlAsync(browserKey: string): Promise<string> {
+    const discovery = await this.getDiscoveryAsync();
+
+    this.prunePendingLogins();
+
+    const state = generateRandomToken();
+    const pending: PendingLogin = {
+      codeVerifier: generateRandomToken(),
+      nonce: generateRandomToken(),
+      browserKeyHash: hashToken(browserKey),
+      createdAt: Date.now()
+    };
+
+    this.pendingLogins.set(state, pending);
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.redirectUri);
+    url.searchParams.set('scope', this.config.scope);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', pending.nonce);
+    url.searchParams.set('code_challenge', createCodeChallenge(pending.codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  // The browser key stops a callback started elsewhere from signing this browser in to someone else's account
+  async completeLoginAsync(code: string, state: string, browserKey: string | undefined): Promise<AuthResponse | null> {
+    // Each state is single use, whether or not the exchange succeeds
+    const pending = this.pendingLogins.get(state);
+    this.pendingLogins.delete(state);
+
+    if (!pending || Date.now() - pending.createdAt > PENDING_LOGIN_TTL_MS) {
+      throw new OidcError('Login request is unknown or has expired');
+    }
+
+    if (!browserKey || !tokenHashesMatch(hashToken(browserKey), pending.browserKeyHash)) {
+      throw new OidcError('Login was not started from this browser');
+    }
+
+    const discovery = await this.getDiscoveryAsync();
+    const idToken = await this.exchangeCodeAsync(discovery, code, pending);
+    const claims = await this.verifyIdTokenAsync(discovery, idToken, pending.nonce);
+
+    return this.userService.signInExternalAsync(this.toExternalIdentity(discovery.issuer, claims), this.config.defaultRole);
+  }
+
+  private async getDiscoveryAsync(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      const authority = this.config.authority.replace(/\/+$/, '');
+      const document = await this.fetchJsonAsync<OidcDiscoveryDocument>(`${authority}/.well-known/openid-configuration`);
+
+      if (!document.issuer || !document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+        throw new OidcError('OIDC discovery document is incomplete');
+      }
+
+      this.discovery = document;
+    }
+
+    return this.discovery;
+  }
+
+  private async exchangeCodeAsync(discovery: OidcDiscoveryDocument, code: string, pending: PendingLogin): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.redirectUri,
+      client_id: this.config.clientId,
+      code_verifier: pending.codeVerifier
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS)
+    });
+
+    const tokens = await response.json().catch(() => ({})) as OidcTokenResponse;
+
+    if (!response.ok || !tokens.id_token) {
+      throw new OidcError(`Token exchange failed: ${tokens.error_description || tokens.error || `HTTP ${response.status}`}`);
+    }
+
+    return tokens.id_token;
+  }
+
+  private async verifyIdTokenAsync(discovery: OidcDiscoveryDocument, idToken: string, nonce: string): Promise<jwt.JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded) {
+      throw new OidcError('ID token is malformed');
+    }
+
+    const key = await this.getSigningKeyAsync(discovery, decoded.header.kid);
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: this.config.clientId
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      throw new OidcError(`ID token is invalid: ${(error as Error).message}`);
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new OidcError('ID token nonce does not match the login request');
+    }
+
+    if (!claims.sub) {
+      throw new OidcError('ID token has no subject');
+    }
+
+    return claims;
+  }
+
+  private async getSigningKeyAsync(discovery: OidcDiscoveryDocument, kid?: string): Promise<crypto.KeyObject> {
+    const cacheKey = kid || '';
+
+    // Refetch on an unknown key id so provider key rotation is picked up
+    if (!this.signingKeys.has(cacheKey)) {
+      const jwks = await this.fetchJsonAsync<{ keys?: (crypto.JsonWebKey & { kid?: string; use?: string })[] }>(discovery.jwks_uri);
+
+      this.signingKeys.clear();
+      for (const jwk of jwks.keys || []) {
+        if (jwk.use && jwk.use !== 'sig') {
+          continue;
+        }
+        this.signingKeys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+
+    const key = this.signingKeys.get(cacheKey);
+    if (!key) {
+      throw new OidcError(`No signing key found for key id '${cacheKey}'`);
+    }
+
+    return key;
+  }
+
+  private toExternalIdentity(issuer: string, claims: jwt.JwtPayload): ExternalIdentity {
+    const subject = claims.sub as string;
+    const email = typeof claims.email === 'string' ? claims.email : undefined;
+    const preferredUsername = typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined;
+
+    return {
+      provider: issuer,
+      subject,
+      username: preferredUsername || email?.split('@')[0] || subject,
+      email,
+      emailVerified: this.config.linkByEmail && (claims.email_verified === true || claims.email_verified === 'true'),
+      role: this.mapRole(claims)
+    };
+  }
+
+  private mapRole(claims: jwt.JwtPayload): UserRole | undefined {
+    // Dotted claim names reach into nested claims such as Keycloak's realm_access.roles
+    const value = this.config.roleClaim.split('.').reduce<unknown>(
+      (current, segment) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[segment] : undefined),
+      claims
+    );
+
+    const roles = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(' ') : [];
+
+    return mapExternalRoles(roles, this.config);
+  }
+
+  private prunePendingLogins(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pendingLogins) {
+      if (now - pending.createdAt > PENDING_LOGIN_TTL_MS) {
+        this.pendingLogins.delete(state);
+      }
+    }
+  }
+
+  private async fetchJsonAsync<T>(url: string): Promise<T> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      throw new OidcError(`Request to identity provider failed: ${url} returned HTTP ${response.status}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
\ No newline at end of file
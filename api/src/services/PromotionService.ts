@@ -0,0 +1,108 @@
+import { Database } from '../database';
+import { BlobStorageService } from './BlobStorageService';
+import { AccessDeniedError } from './AccessControlService';
+import {
+  PromotionRequest,
+  PromotionStatus,
+  CreatePromotionRequest,
+  UserContext,
+  UserRole,
+  FilePermission
+} from '../models';
+
+export class PromotionService {
+  private database: Database;
+  private blobStorageService: BlobStorageService;
+
+  constructor(database: Database, blobStorageService: BlobStorageService) {
+    this.database = database;
+    this.blobStorageService = blobStorageService;
+  }
+
+  async submitAsync(request: CreatePromotionRequest, userContext: UserContext): Promise<PromotionRequest | null> {
+    if (!(await this.blobStorageService.canAccessAsync(request.fileName, FilePermission.Read, userContext))) {
+      return null;
+    }
+    if (!(await this.blobStorageService.canAccessAsync(request.fileName, FilePermission.Promote, userContext))) {
+      throw new AccessDeniedError(`No ${FilePermission.Promote} permission for '${request.fileName}'`);
+    }
+
+    // Pin the request to the working version that exists right now
+    const workingVersion = await this.blobStorageService.getWorkingFileVersionAsync(request.fileName);
+
+    if (!workingVersion) {
+      return null;
+    }
+
+    return this.database.createPromotionRequest({
+      fileName: request.fileName,
+      versionId: workingVersion.versionId,
+      etag: workingVersion.etag,
+      releaseNote: request.releaseNote,
+      status: PromotionStatus.Pending,
+      requestedBy: userContext.username,
+      requestedAt: new Date().toISOString()
+    });
+  }
+
+  async getRequestsAsync(userContext: UserContext, status?: PromotionStatus): Promise<PromotionRequest[]> {
+    // Contributors only see their own requests, admins see everything
+    const requestedBy = userContext.role < UserRole.Admin ? userContext.username : undefined;
+    return this.database.getPromotionRequests(status, requestedBy);
+  }
+
+  async getRequestByIdAsync(id: number): Promise<PromotionRequest | null> {
+    return this.database.getPromotionRequestById(id);
+  }
+
+  async getPendingRequestForFileAsync(fileName: string): Promise<PromotionRequest | null> {
+    return this.database.getPendingPromotionRequestForFile(fileName);
+  }
+
+  async approveAsync(request: PromotionRequest, userContext: UserContext, comment?: string): Promise<PromotionRequest | null> {
+    // Claim the request before copying, so of two concurrent approvals only one reaches stable
+    const claimed = await this.database.completePromotionRequest(
+      request.id,
+      PromotionStatus.Approved,
+      userContext.username,
+      comment
+    );
+
+    if (!claimed) {
+      return null;
+    }
+
+    let stableVersionId: string | undefined;
+    try {
+      stableVersionId = await this.blobStorageService.promoteFileAsync(
+        request.fileName,
+        request.versionId,
+        request.etag,
+        {
+          releaseNote: request.releaseNote,
+          requestedBy: request.requestedBy,
+          approvedBy: userContext.username
+        }
+      );
+    } catch (error) {
+      // Nothing reached stable, so the request goes back to pending
+      await this.database.reopenPromotionRequest(request.id);
+      throw error;
+    }
+
+    await this.database.setPromotionStableVersion(request.id, stableVersionId);
+
+    return this.database.getPromotionRequestById(request.id);
+  }
+
+  async rejectAsync(request: PromotionRequest, userContext: UserContext, comment: string): Promise<PromotionRequest | null> {
+    const completed = await this.database.completePromotionRequest(
+      request.id,
+      PromotionStatus.Rejected,
+      userContext.username,
+      comment
+    );
+
+    return completed ? this.database.getPromotionRequestById(request.id) : null;
+  }
+}
\ No newline at end of file
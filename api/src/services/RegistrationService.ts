@@ -0,0 +1,128 @@
+import { Database } from '../database';
+import { SessionService } from './SessionService';
+import { UserTokenService } from './UserTokenService';
+import { Mailer } from './MailService';
+import { User, UserRole, UserTokenPurpose, SignUpRequest, SignUpResult, LocalAuthConfig } from '../models';
+import { PasswordService } from '../utils';
+
+const EMAIL_CONFIRMATION_TOKEN_TTL_HOURS = 48;
+
+export class RegistrationService {
+  private database: Database;
+  private passwordService: PasswordService;
+  private sessionService: SessionService;
+  private userTokenService: UserTokenService;
+  private mailer: Mailer;
+  private config: LocalAuthConfig;
+  private publicUrl: string;
+
+  constructor(
+    database: Database,
+    passwordService: PasswordService,
+    sessionService: SessionService,
+    userTokenService: UserTokenService,
+    mailer: Mailer,
+    config: LocalAuthConfig,
+    publicUrl: string
+  ) {
+    this.database = database;
+    this.passwordService = passwordService;
+    this.sessionService = sessionService;
+    this.userTokenService = userTokenService;
+    this.mailer = mailer;
+    this.config = config;
+    this.publicUrl = publicUrl.replace(/\/+$/, '');
+  }
+
+  get isEnabled(): boolean {
+    return this.config.enabled && this.config.allowUserRegistration;
+  }
+
+  checkPasswordPolicy(password: string, username?: string): string | null {
+    return this.passwordService.checkPolicy(password, username);
+  }
+
+  async signUpAsync(request: SignUpRequest): Promise<SignUpResult | null> {
+    if (
+      await this.database.getUserByUsername(request.username) ||
+      await this.database.getUserByEmail(request.email)
+    ) {
+      return null;
+    }
+
+    // Self-registered accounts always start as viewers; confirmation-pending accounts can't sign in yet
+    const confirmationRequired = this.config.requireEmailConfirmation;
+    const newUser: Omit<User, 'id'> = {
+      username: request.username,
+      email: request.email,
+      passwordHash: await this.passwordService.hashPassword(request.password),
+      role: UserRole.Viewer,
+      createdAt: new Date().toISOString(),
+      isActive: !confirmationRequired,
+      mustChangePassword: false,
+      emailConfirmed: !confirmationRequired
+    };
+
+    const user = await this.database.createUser(newUser);
+
+    if (!confirmationRequired) {
+      return { confirmationRequired, auth: await this.sessionService.createSessionAsync(user) };
+    }
+
+    try {
+      await this.sendConfirmationAsync(user);
+    } catch (error) {
+      // Free the username and email again so the visitor can simply retry
+      await this.database.deleteUser(user.id);
+      throw error;
+    }
+
+    return { confirmationRequired };
+  }
+
+  async confirmEmailAsync(token: string): Promise<boolean> {
+    const userId = await this.userTokenService.redeemAsync(token, UserTokenPurpose.EmailConfirmation);
+    const user = userId ? await this.database.getUserById(userId) : null;
+
+    if (!user || user.emailConfirmed) {
+      return false;
+    }
+
+    return this.database.updateUser(user.id, { emailConfirmed: true, isActive: true });
+  }
+
+  async resendConfirmationAsync(email: string): Promise<void> {
+    const user = await this.database.getUserByEmail(email);
+
+    // Stay silent about unknown or already confirmed addresses so the endpoint can't be used to probe accounts
+    if (!user || user.emailConfirmed) {
+      return;
+    }
+
+    await this.sendConfirmationAsync(user);
+  }
+
+  private async sendConfirmationAsync(user: User): Promise<void> {
+    const { token, expiresAt } = await this.userTokenService.issueAsync(
+      user.id,
+      UserTokenPurpose.EmailConfirmation,
+      EMAIL_CONFIRMATION_TOKEN_TTL_HOURS
+    );
+
+    const link = `${this.publicUrl}/api/auth/confirm-email?token=${encodeURIComponent(token)}`;
+
+    await this.mailer.sendAsync({
+      to: user.email,
+      subject: 'Confirm your CalcpadS3 account',
+      text: [
+        `Hello ${user.username},`,
+        '',
+        'Please confirm your email address to activate your CalcpadS3 account:',
+        '',
+        link,
+        '',
+        `This link expires at ${expiresAt}. If you did not sign up, you can ignore this message.`
+      ].join('\n')
+    });
+  }
+}
\ No newline at end of file
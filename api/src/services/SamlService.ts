@@ -0,0 +1,111 @@
+import { SAML, Profile, ValidateInResponseTo } from '@node-saml/node-saml';
+import { UserService } from './UserService';
+import { SAMLConfig, AuthResponse, ExternalIdentity } from '../models';
+import { mapExternalRoles } from '../utils';
+
+const EMAIL_ATTRIBUTES = ['email', 'mail', 'urn:oid:0.9.2342.19200300.100.1.3', 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress'];
+
+export class SamlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SamlError';
+  }
+}
+
+export class SamlService {
+  private config: SAMLConfig;
+  private userService: UserService;
+  private callbackUrl: string;
+  private saml: SAML | null = null;
+
+  constructor(config: SAMLConfig, userService: UserService, publicUrl: string) {
+    this.config = config;
+    this.userService = userService;
+    // Fixed by configuration, never by the Host header of whoever sends the first request
+    this.callbackUrl = config.callbackUrl || `${publicUrl.replace(/\/+$/, '')}${config.callbackPath}`;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getCallbackPath(): string {
+    return this.config.callbackPath;
+  }
+
+  getPostLoginRedirectUri(): string | undefined {
+    return this.config.postLoginRedirectUri;
+  }
+
+  getServiceProviderMetadata(): string {
+    return this.getSaml().generateServiceProviderMetadata(null, null);
+  }
+
+  async createLoginUrlAsync(): Promise<string> {
+    return this.getSaml().getAuthorizeUrlAsync('', undefined, {});
+  }
+
+  async completeLoginAsync(samlResponse: string): Promise<AuthResponse | null> {
+    let profile: Profile | null;
+
+    try {
+      ({ profile } = await this.getSaml().validatePostResponseAsync({ SAMLResponse: samlResponse }));
+    } catch (error) {
+      throw new SamlError(`SAML response is invalid: ${(error as Error).message}`);
+    }
+
+    if (!profile || !profile.nameID) {
+      throw new SamlError('SAML response has no subject');
+    }
+
+    return this.userService.signInExternalAsync(this.toExternalIdentity(profile), this.config.defaultRole);
+  }
+
+  private getSaml(): SAML {
+    if (!this.saml) {
+      this.saml = new SAML({
+        issuer: this.config.entityId,
+        entryPoint: this.config.signOnUrl,
+        idpCert: this.config.certificate,
+        idpIssuer: this.config.idpEntityId,
+        callbackUrl: this.callbackUrl,
+        // The assertion carries the identity, so its signature is what must be checked
+        wantAssertionsSigned: true,
+        wantAuthnResponseSigned: false,
+        validateInResponseTo: ValidateInResponseTo.ifPresent
+      });
+    }
+
+    return this.saml;
+  }
+
+  private toExternalIdentity(profile: Profile): ExternalIdentity {
+    const email = [this.config.emailAttribute, ...EMAIL_ATTRIBUTES]
+      .map(attribute => this.getAttributeValues(profile, attribute)[0])
+      .find(value => value !== undefined);
+    const username = this.config.usernameAttribute
+      ? this.getAttributeValues(profile, this.config.usernameAttribute)[0]
+      : undefined;
+
+    return {
+      provider: profile.issuer,
+      subject: profile.nameID,
+      username: username || email?.split('@')[0] || profile.nameID,
+      email,
+      // Linking to an existing account by email must be switched on; otherwise any IdP user asserting
+      // an address, such as the bootstrap admin's, would take over that account
+      emailVerified: this.config.linkByEmail && email !== undefined,
+      role: mapExternalRoles(this.getAttributeValues(profile, this.config.roleAttribute), this.config)
+    };
+  }
+
+  private getAttributeValues(profile: Profile, attribute: string): string[] {
+    const value = profile[attribute];
+
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string');
+    }
+
+    return typeof value === 'string' ? [value] : [];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { Database } from '../database';
+import { TwoFactorService } from './TwoFactorService';
+import { User, AuthResponse, UserContext } from '../models';
+import { JwtService, generateRandomToken, hashToken, tokenHashesMatch } from '../utils';
+
+export class SessionService {
+  private database: Database;
+  private jwtService: JwtService;
+  private refreshTokenExpiryInDays: number;
+  private twoFactorService: TwoFactorService;
+
+  constructor(
+    database: Database,
+    jwtService: JwtService,
+    refreshTokenExpiryInDays: number,
+    twoFactorService: TwoFactorService
+  ) {
+    this.database = database;
+    this.jwtService = jwtService;
+    this.refreshTokenExpiryInDays = refreshTokenExpiryInDays;
+    this.twoFactorService = twoFactorService;
+  }
+
+  async createSessionAsync(user: User): Promise<AuthResponse> {
+    const now = new Date();
+    await this.database.deleteExpiredSessions(now.toISOString());
+
+    const sessionId = crypto.randomUUID();
+    const refreshToken = this.createRefreshToken(sessionId);
+    const expiresAt = new Date(now.getTime() + this.refreshTokenExpiryInDays * 24 * 60 * 60 * 1000);
+
+    await this.database.createSession({
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      createdAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString()
+    });
+
+    return this.createAuthResponse(user, sessionId, refreshToken, expiresAt.toISOString());
+  }
+
+  async refreshAsync(refreshToken: string): Promise<AuthResponse | null> {
+    const sessionId = refreshToken.split('.')[0];
+    const session = await this.database.getSessionById(sessionId);
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date().toISOString()) {
+      return null;
+    }
+
+    const tokenHash = hashToken(refreshToken);
+
+    // A rotated-out token being replayed means it leaked; end the session for both holders
+    if (session.previousTokenHash && tokenHashesMatch(tokenHash, session.previousTokenHash)) {
+      await this.database.revokeSession(session.id);
+      return null;
+    }
+
+    if (!tokenHashesMatch(tokenHash, session.refreshTokenHash)) {
+      return null;
+    }
+
+    const user = await this.database.getUserById(session.userId);
+    if (!user || !user.isActive) {
+      await this.database.revokeSession(session.id);
+      return null;
+    }
+
+    const nextRefreshToken = this.createRefreshToken(session.id);
+    const rotated = await this.database.rotateSessionToken(
+      session.id,
+      session.refreshTokenHash,
+      hashToken(nextRefreshToken),
+      new Date().toISOString()
+    );
+
+    if (!rotated) {
+      return null;
+    }
+
+    return this.createAuthResponse(user, session.id, nextRefreshToken, session.expiresAt);
+  }
+
+  async validateAccessTokenAsync(token: string): Promise<UserContext | null> {
+    const payload = this.jwtService.verifyToken(token);
+
+    if (!payload || !payload.sessionId) {
+      return null;
+    }
+
+    const session = await this.database.getSessionById(payload.sessionId);
+    if (!session || session.revokedAt || session.userId !== payload.userId) {
+      return null;
+    }
+
+    const user = await this.database.getUserById(payload.userId);
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    // The stored role wins so role changes apply without waiting for the token to expire
+    return {
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      sessionId: session.id,
+      mustChangePassword: user.mustChangePassword,
+      twoFactorSetupRequired: await this.twoFactorService.isSetupRequiredAsync(user)
+    };
+  }
+
+  async revokeSessionAsync(sessionId: string): Promise<boolean> {
+    return this.database.revokeSession(sessionId);
+  }
+
+  async revokeAllSessionsAsync(userId: string, exceptSessionId?: string): Promise<number> {
+    return this.database.revokeUserSessions(userId, exceptSessionId);
+  }
+
+  private createAuthResponse(user: User, sessionId: string, refreshToken: string, refreshTokenExpiresAt: string): AuthResponse {
+    const userContext: UserContext = {
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      sessionId
+    };
+
+    const token = this.jwtService.generateToken(userContext);
+    const expiresAt = this.jwtService.getExpirationDate();
+
+    return {
+      token,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        createdAt: user.createdAt,
+        lastLoginAt: user.lastLoginAt,
+        isActive: user.isActive,
+        mustChangePassword: user.mustChangePassword,
+        emailConfirmed: user.emailConfirmed
+      },
+      expiresAt: expiresAt.toISOString(),
+      refreshToken,
+      refreshTokenExpiresAt
+    };
+  }
+
+  private createRefreshToken(sessionId: string): string {
+    // The session id prefix lets the token be looked up without storing it in plain text
+    return `${sessionId}.${generateRandomToken()}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Database } from '../database';
+import { BlobStorageService } from './BlobStorageService';
+import { BlobMetadata, SignOff, SignOffType, CreateSignOffRequest, UserContext, FilePermission } from '../models';
+
+export class SignOffService {
+  private database: Database;
+  private blobStorageService: BlobStorageService;
+
+  constructor(database: Database, blobStorageService: BlobStorageService) {
+    this.database = database;
+    this.blobStorageService = blobStorageService;
+  }
+
+  async recordSignOffAsync(
+    fileName: string,
+    request: CreateSignOffRequest,
+    userContext: UserContext
+  ): Promise<SignOff | null> {
+    const version = await this.blobStorageService.getFileVersionInfoAsync(fileName, request.versionId, userContext);
+
+    if (!version) {
+      return null;
+    }
+
+    return this.database.createSignOff({
+      fileName,
+      versionId: version.versionId,
+      etag: version.etag,
+      type: request.type,
+      signedBy: userContext.username,
+      signedAt: new Date().toISOString(),
+      comment: request.comment,
+      isValid: true
+    });
+  }
+
+  async getSignOffsAsync(fileName: string, userContext: UserContext): Promise<SignOff[] | null> {
+    if (!(await this.blobStorageService.canAccessAsync(fileName, FilePermission.Read, userContext))) {
+      return null;
+    }
+
+    return this.database.getSignOffsForFile(fileName);
+  }
+
+  async invalidateStaleSignOffsAsync(fileName: string): Promise<number> {
+    // A sign-off stays valid only while one of the buckets still serves the content it approved
+    const currentETags = await this.blobStorageService.getCurrentETagsAsync(fileName);
+    return this.database.invalidateSignOffs(fileName, currentETags);
+  }
+
+  async applySignOffsAsync(files: BlobMetadata[]): Promise<BlobMetadata[]> {
+    const signOffs = await this.database.getValidSignOffsForFiles([...new Set(files.map(file => file.fileName))]);
+
+    return files.map(file => {
+      // Sign-offs are ordered newest first, so the first match is the latest approval
+      const matching = signOffs.filter(signOff => signOff.fileName === file.fileName && signOff.etag === file.etag);
+      const review = matching.find(signOff => signOff.type === SignOffType.Review);
+      const test = matching.find(signOff => signOff.type === SignOffType.Test);
+
+      return {
+        ...file,
+        reviewed: review?.signedAt,
+        reviewedBy: review?.signedBy,
+        tested: test?.signedAt,
+        testedBy: test?.signedBy
+      };
+    });
+  }
+}
\ No newline at end of file
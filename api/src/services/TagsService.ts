@@ -1,11 +1,32 @@
+import crypto from 'crypto';
 import { Database } from '../database';
-import { Tag, CreateTagRequest } from '../models';
+import { BlobStorageService } from './BlobStorageService';
+import {
+  Tag,
+  CreateTagRequest,
+  TagOperation,
+  TagUsage,
+  TagUsageReport,
+  UserContext,
+  TagCategory,
+  CreateTagCategoryRequest,
+  UpdateTagCategoryRequest
+} from '../models';
+
+// Finished operations stay available for polling this long
+const FINISHED_OPERATION_TTL_MS = 60 * 60 * 1000;
 
 export class TagsService {
   private database: Database;
+  private blobStorageService: BlobStorageService;
+  private enforceVocabulary: boolean;
+  // Rename/merge progress is only kept in memory; operations interrupted by a restart can be re-run
+  private operations = new Map<string, TagOperation>();
 
-  constructor(database: Database) {
+  constructor(database: Database, blobStorageService: BlobStorageService, enforceVocabulary = false) {
     this.database = database;
+    this.blobStorageService = blobStorageService;
+    this.enforceVocabulary = enforceVocabulary;
   }
 
   async getAllTagsAsync(): Promise<Tag[]> {
@@ -23,4 +44,188 @@ export class TagsService {
   async deleteTagAsync(id: number): Promise<boolean> {
     return this.database.deleteTag(id);
   }
+
+  async getTagByNameAsync(name: string): Promise<Tag | null> {
+    return this.database.getTagByName(name);
+  }
+
+  async renameTagAsync(tag: Tag, newName: string, userContext: UserContext): Promise<TagOperation> {
+    await this.database.updateTag(tag.id, newName);
+    return this.startOperation('rename', tag.name, newName, userContext);
+  }
+
+  async mergeTagAsync(source: Tag, target: Tag, userContext: UserContext): Promise<TagOperation> {
+    // The source disappears from the vocabulary right away; objects follow as the operation runs
+    await this.database.deleteTag(source.id);
+    return this.startOperation('merge', source.name, target.name, userContext);
+  }
+
+  getOperation(id: string): TagOperation | null {
+    this.pruneOperations();
+    return this.operations.get(id) || null;
+  }
+
+  private pruneOperations(): void {
+    const cutoff = Date.now() - FINISHED_OPERATION_TTL_MS;
+
+    for (const [id, operation] of this.operations) {
+      if (operation.completedAt && new Date(operation.completedAt).getTime() < cutoff) {
+        this.operations.delete(id);
+      }
+    }
+  }
+
+  private startOperation(
+    type: TagOperation['type'],
+    sourceTag: string,
+    targetTag: string,
+    userContext: UserContext
+  ): TagOperation {
+    const operation: TagOperation = {
+      id: crypto.randomUUID(),
+      type,
+      status: 'Running',
+      sourceTag,
+      targetTag,
+      total: 0,
+      processed: 0,
+      changed: 0,
+      failed: [],
+      startedBy: userContext.username,
+      startedAt: new Date().toISOString()
+    };
+
+    this.pruneOperations();
+    this.operations.set(operation.id, operation);
+    this.propagateTagAsync(operation);
+
+    return operation;
+  }
+
+  private async propagateTagAsync(operation: TagOperation): Promise<void> {
+    try {
+      const objects = await this.blobStorageService.getObjectsWithTagAsync(operation.sourceTag);
+      operation.total = objects.length;
+
+      for (const { bucket, fileName } of objects) {
+        try {
+          if (await this.blobStorageService.replaceObjectTagAsync(bucket, fileName, operation.sourceTag, operation.targetTag)) {
+            operation.changed++;
+          }
+        } catch (error) {
+          console.error(`Error retagging ${bucket}/${fileName}:`, error);
+          operation.failed.push(`${bucket}/${fileName}`);
+        }
+        operation.processed++;
+      }
+
+      operation.status = 'Completed';
+    } catch (error) {
+      console.error(`Error running tag ${operation.type}:`, error);
+      operation.status = 'Failed';
+      operation.error = error instanceof Error ? error.message : String(error);
+    }
+
+    operation.completedAt = new Date().toISOString();
+  }
+
+  async getAllCategoriesAsync(): Promise<TagCategory[]> {
+    return this.database.getAllTagCategories();
+  }
+
+  async getCategoryByIdAsync(id: number): Promise<TagCategory | null> {
+    return this.database.getTagCategoryById(id);
+  }
+
+  async createCategoryAsync(request: CreateTagCategoryRequest): Promise<TagCategory> {
+    return this.database.createTagCategory(request.name, request.allowedValues);
+  }
+
+  async updateCategoryAsync(id: number, request: UpdateTagCategoryRequest): Promise<boolean> {
+    return this.database.updateTagCategory(id, request.allowedValues);
+  }
+
+  async deleteCategoryAsync(id: number): Promise<boolean> {
+    return this.database.deleteTagCategory(id);
+  }
+
+  isVocabularyEnforced(): boolean {
+    return this.enforceVocabulary;
+  }
+
+  /**
+   * Returns the tags that fall outside the vocabulary, or an empty list when
+   * enforcement is switched off. Plain tags must be PreDefinedTags; `key=value`
+   * tags need a matching category, and one of its allowed values if it lists any.
+   */
+  async findInvalidTagsAsync(tags: string[]): Promise<string[]> {
+    if (!this.enforceVocabulary || tags.length === 0) {
+      return [];
+    }
+
+    const predefined = new Set((await this.database.getAllTags()).map(tag => tag.name));
+    const categories = new Map((await this.database.getAllTagCategories()).map(category => [category.name, category]));
+
+    return tags.filter(tag => !this.isInVocabulary(tag, predefined, categories));
+  }
+
+  async getTagUsageAsync(): Promise<TagUsageReport> {
+    const predefinedTags = await this.database.getAllTags();
+    const predefined = new Set(predefinedTags.map(tag => tag.name));
+    const categories = new Map((await this.database.getAllTagCategories()).map(category => [category.name, category]));
+    const buckets = this.blobStorageService.getBucketNames();
+    const usageByTag = new Map<string, TagUsage>();
+
+    const getUsage = (name: string): TagUsage => {
+      let usage = usageByTag.get(name);
+      if (!usage) {
+        usage = { name, usage: Object.fromEntries(buckets.map(bucket => [bucket, 0])), total: 0 };
+        usageByTag.set(name, usage);
+      }
+      return usage;
+    };
+
+    // Predefined tags are always reported so unused ones show up with a zero count
+    for (const tag of predefinedTags) {
+      getUsage(tag.name).id = tag.id;
+    }
+
+    for (const row of await this.database.getTagUsage()) {
+      const usage = getUsage(row.tag);
+      usage.usage[row.bucket] = row.count;
+      usage.total += row.count;
+      if (!usage.lastUsed || row.lastUsed > usage.lastUsed) {
+        usage.lastUsed = row.lastUsed;
+      }
+    }
+
+    const report: TagUsageReport = { tags: [], categorized: [], unregistered: [] };
+    for (const usage of [...usageByTag.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))) {
+      if (predefined.has(usage.name)) {
+        report.tags.push(usage);
+      } else if (this.isInVocabulary(usage.name, predefined, categories)) {
+        report.categorized.push(usage);
+      } else {
+        report.unregistered.push(usage);
+      }
+    }
+
+    return report;
+  }
+
+  private isInVocabulary(tag: string, predefined: Set<string>, categories: Map<string, TagCategory>): boolean {
+    const separator = tag.indexOf('=');
+
+    if (separator < 0) {
+      return predefined.has(tag);
+    }
+
+    const key = tag.slice(0, separator).trim();
+    const value = tag.slice(separator + 1).trim();
+    const category = categories.get(key);
+
+    return !!category
+      && value.length > 0
+      && (category.allowedValues.length === 0 || category.allowedValues.includes(value));
+  }
 }
\ No newline at end of file
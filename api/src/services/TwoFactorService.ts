@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { Database } from '../database';
+import { User, UserRole, TwoFactorPolicy, TwoFactorSetup, TwoFactorStatus } from '../models';
+import {
+  PasswordService,
+  generateTotpSecret,
+  verifyTotp,
+  createTotpProvisioningUri,
+  hashToken,
+  tokenHashesMatch
+} from '../utils';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export class TwoFactorService {
+  private database: Database;
+  private passwordService: PasswordService;
+  private policy: TwoFactorPolicy;
+
+  constructor(database: Database, passwordService: PasswordService, policy: TwoFactorPolicy) {
+    this.database = database;
+    this.passwordService = passwordService;
+    this.policy = policy;
+  }
+
+  // Only local accounts enrol here; OIDC and SAML users are expected to get their second factor from the IdP
+  isRequiredFor(user: Pick<User, 'role' | 'passwordHash'>): boolean {
+    return this.policy.requiredForAdmins && user.role >= UserRole.Admin && user.passwordHash !== '';
+  }
+
+  async isEnabledAsync(userId: string): Promise<boolean> {
+    const credential = await this.database.getTwoFactorCredential(userId);
+    return !!credential?.enabledAt;
+  }
+
+  async isSetupRequiredAsync(user: User): Promise<boolean> {
+    return this.isRequiredFor(user) && !(await this.isEnabledAsync(user.id));
+  }
+
+  async getStatusAsync(userId: string): Promise<TwoFactorStatus | null> {
+    const user = await this.database.getUserById(userId);
+
+    if (!user) {
+      return null;
+    }
+
+    const credential = await this.database.getTwoFactorCredential(userId);
+    const enabled = !!credential?.enabledAt;
+
+    return {
+      enabled,
+      required: this.isRequiredFor(user),
+      recoveryCodesRemaining: enabled ? credential.recoveryCodeHashes.length : 0
+    };
+  }
+
+  // Returns null when two-factor authentication is already enabled
+  async beginSetupAsync(userId: string, username: string): Promise<TwoFactorSetup | null> {
+    if (await this.isEnabledAsync(userId)) {
+      return null;
+    }
+
+    const secret = generateTotpSecret();
+    await this.database.saveTwoFactorSecret(userId, secret, new Date().toISOString());
+
+    return {
+      secret,
+      provisioningUri: createTotpProvisioningUri(secret, username, this.policy.issuer)
+    };
+  }
+
+  // Confirms the enrolment with a code from the authenticator and returns the one-time recovery codes
+  async enableAsync(userId: string, code: string): Promise<string[] | null> {
+    const credential = await this.database.getTwoFactorCredential(userId);
+
+    if (!credential || credential.enabledAt) {
+      return null;
+    }
+
+    const step = verifyTotp(credential.secret, code.trim());
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const enabled = await this.database.enableTwoFactor(
+      userId,
+      new Date().toISOString(),
+      step,
+      recoveryCodes.map(recoveryCode => hashToken(this.normalizeRecoveryCode(recoveryCode)))
+    );
+
+    return enabled ? recoveryCodes : null;
+  }
+
+  // Accepts either a current authenticator code or one of the unused recovery codes
+  async verifyCodeAsync(userId: string, code: string): Promise<boolean> {
+    const credential = await this.database.getTwoFactorCredential(userId);
+
+    if (!credential || !credential.enabledAt) {
+      return false;
+    }
+
+    const trimmed = code.trim();
+    if (/^\d+$/.test(trimmed)) {
+      const step = verifyTotp(credential.secret, trimmed);
+      return step !== null && this.database.useTwoFactorStep(userId, step);
+    }
+
+    const hash = hashToken(this.normalizeRecoveryCode(trimmed));
+    const match = credential.recoveryCodeHashes.find(stored => tokenHashesMatch(stored, hash));
+    if (!match) {
+      return false;
+    }
+
+    // Each recovery code works once
+    return this.database.replaceTwoFactorRecoveryCodes(
+      userId,
+      credential.recoveryCodeHashes,
+      credential.recoveryCodeHashes.filter(stored => stored !== match)
+    );
+  }
+
+  async regenerateRecoveryCodesAsync(userId: string, code: string): Promise<string[] | null> {
+    if (!(await this.verifyCodeAsync(userId, code))) {
+      return null;
+    }
+
+    const credential = await this.database.getTwoFactorCredential(userId);
+    if (!credential) {
+      return null;
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    const replaced = await this.database.replaceTwoFactorRecoveryCodes(
+      userId,
+      credential.recoveryCodeHashes,
+      recoveryCodes.map(recoveryCode => hashToken(this.normalizeRecoveryCode(recoveryCode)))
+    );
+
+    return replaced ? recoveryCodes : null;
+  }
+
+  async disableAsync(userId: string, password: string, code: string): Promise<boolean> {
+    const user = await this.database.getUserById(userId);
+
+    if (!user || !(await this.passwordService.verifyPassword(password, user.passwordHash))) {
+      return false;
+    }
+
+    if (!(await this.verifyCodeAsync(userId, code))) {
+      return false;
+    }
+
+    return this.database.deleteTwoFactorCredential(userId);
+  }
+
+  // For admins helping a user who lost their authenticator and recovery codes
+  async resetAsync(userId: string): Promise<boolean> {
+    return this.database.deleteTwoFactorCredential(userId);
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const characters = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]);
+      return `${characters.slice(0, 5).join('')}-${characters.slice(5).join('')}`;
+    });
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+}
\ No newline at end of file
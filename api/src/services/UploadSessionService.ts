@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { Database } from '../database';
+import { BlobStorageService } from './BlobStorageService';
+import { CreateUploadSessionRequest, UploadSession, UploadedPart, UserContext } from '../models';
+
+// S3 multipart limits: every part but the last must be at least 5 MB, and there are at most 10000 parts
+export const MIN_UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+export const MAX_UPLOAD_PART_SIZE = 64 * 1024 * 1024;
+export const MAX_UPLOAD_PARTS = 10000;
+
+export class UploadSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadSessionError';
+  }
+}
+
+export class UploadSessionService {
+  private database: Database;
+  private blobStorageService: BlobStorageService;
+  private expiryHours: number;
+
+  constructor(database: Database, blobStorageService: BlobStorageService, expiryHours: number) {
+    this.database = database;
+    this.blobStorageService = blobStorageService;
+    this.expiryHours = expiryHours;
+  }
+
+  async createAsync(fileName: string, request: CreateUploadSessionRequest, userContext: UserContext): Promise<UploadSession> {
+    const contentType = request.contentType || 'application/octet-stream';
+    const metadata = request.comment
+      ? { ...request.metadata, 'version-comment': encodeURIComponent(request.comment) }
+      : request.metadata;
+    const { bucket, uploadId } = await this.blobStorageService.beginMultipartUploadAsync(
+      fileName,
+      userContext,
+      contentType,
+      metadata
+    );
+
+    return this.database.createUploadSession({
+      id: crypto.randomUUID(),
+      fileName,
+      bucket,
+      uploadId,
+      contentType,
+      tags: request.tags || [],
+      metadata: metadata || {},
+      userId: userContext.userId,
+      createdBy: userContext.username,
+      createdAt: new Date().toISOString(),
+      expiresAt: this.getExpiry()
+    });
+  }
+
+  // Sessions are private to the user who started them
+  async getAsync(id: string, userContext: UserContext): Promise<UploadSession | null> {
+    const session = await this.database.getUploadSessionById(id);
+
+    if (!session || session.userId !== userContext.userId || session.expiresAt <= new Date().toISOString()) {
+      return null;
+    }
+
+    return session;
+  }
+
+  async getForUserAsync(userContext: UserContext): Promise<UploadSession[]> {
+    const now = new Date().toISOString();
+    const sessions = await this.database.getUploadSessionsForUser(userContext.userId);
+    return sessions.filter(session => session.expiresAt > now);
+  }
+
+  async uploadPartAsync(session: UploadSession, partNumber: number, payload: Buffer): Promise<UploadedPart> {
+    const etag = await this.blobStorageService.uploadMultipartPartAsync(
+      session.bucket,
+      session.fileName,
+      session.uploadId,
+      partNumber,
+      payload
+    );
+
+    const part: UploadedPart = {
+      partNumber,
+      etag,
+      size: payload.length,
+      uploadedAt: new Date().toISOString()
+    };
+
+    await this.database.saveUploadedPart(session.id, part, this.getExpiry());
+
+    return part;
+  }
+
+  async completeAsync(session: UploadSession, userContext: UserContext): Promise<{ fileName: string; size: number; versionId?: string }> {
+    if (session.parts.length === 0) {
+      throw new UploadSessionError('No parts have been uploaded');
+    }
+
+    const undersized = session.parts.slice(0, -1).filter(part => part.size < MIN_UPLOAD_PART_SIZE);
+    if (undersized.length > 0) {
+      throw new UploadSessionError(
+        `Every part except the last must be at least ${MIN_UPLOAD_PART_SIZE} bytes (too small: ${undersized.map(part => part.partNumber).join(', ')})`
+      );
+    }
+
+    const versionId = await this.blobStorageService.completeMultipartUploadAsync(
+      session.bucket,
+      session.fileName,
+      session.uploadId,
+      session.parts,
+      userContext,
+      session.tags
+    );
+
+    await this.database.deleteUploadSession(session.id);
+
+    return {
+      fileName: session.fileName,
+      size: session.parts.reduce((total, part) => total + part.size, 0),
+      versionId
+    };
+  }
+
+  async abortAsync(session: UploadSession): Promise<void> {
+    await this.blobStorageService.abortMultipartUploadAsync(session.bucket, session.fileName, session.uploadId);
+    await this.database.deleteUploadSession(session.id);
+  }
+
+  // Aborts sessions nobody has sent a part to within the expiry window, freeing the parts MinIO holds
+  async cleanupExpiredAsync(): Promise<number> {
+    const expired = await this.database.getExpiredUploadSessions(new Date().toISOString());
+
+    for (const session of expired) {
+      try {
+        await this.blobStorageService.abortMultipartUploadAsync(session.bucket, session.fileName, session.uploadId);
+      } catch (error) {
+        // MinIO may already have discarded the upload; the session is removed either way
+        console.error(`Error aborting upload session ${session.id}:`, error);
+      }
+      await this.database.deleteUploadSession(session.id);
+    }
+
+    return expired.length;
+  }
+
+  private getExpiry(): string {
+    return new Date(Date.now() + this.expiryHours * 60 * 60 * 1000).toISOString();
+  }
+}
\ No newline at end of file
@@ -1,19 +1,46 @@
 import { Database } from '../database';
-import { User, UserRole, LoginRequest, RegisterRequest, AuthResponse, UserContext } from '../models';
-import { PasswordService, JwtService } from '../utils';
+import { SessionService } from './SessionService';
+import { UserTokenService } from './UserTokenService';
+import { TwoFactorService } from './TwoFactorService';
+import {
+  User,
+  UserRole,
+  LoginRequest,
+  RegisterRequest,
+  AuthResponse,
+  ExternalIdentity,
+  PasswordResetToken,
+  UserTokenPurpose,
+  TwoFactorChallenge
+} from '../models';
+import { PasswordService } from '../utils';
+
+const PASSWORD_RESET_TOKEN_TTL_HOURS = 24;
+const TWO_FACTOR_CHALLENGE_TTL_HOURS = 5 / 60;
 
 export class UserService {
   private database: Database;
   private passwordService: PasswordService;
-  private jwtService: JwtService;
+  private sessionService: SessionService;
+  private userTokenService: UserTokenService;
+  private twoFactorService: TwoFactorService;
 
-  constructor(database: Database, passwordService: PasswordService, jwtService: JwtService) {
+  constructor(
+    database: Database,
+    passwordService: PasswordService,
+    sessionService: SessionService,
+    userTokenService: UserTokenService,
+    twoFactorService: TwoFactorService
+  ) {
     this.database = database;
     this.passwordService = passwordService;
-    this.jwtService = jwtService;
+    this.sessionService = sessionService;
+    this.userTokenService = userTokenService;
+    this.twoFactorService = twoFactorService;
   }
 
-  async loginAsync(request: LoginRequest): Promise<AuthResponse | null> {
+  // Users with two-factor authentication get a short-lived challenge to complete with completeTwoFactorLoginAsync
+  async loginAsync(request: LoginRequest): Promise<AuthResponse | TwoFactorChallenge | null> {
     const user = await this.database.getUserByUsername(request.username);
     
     if (!user || !user.isActive) {
@@ -29,38 +56,55 @@ export class UserService {
       return null;
     }
 
+    if (await this.twoFactorService.isEnabledAsync(user.id)) {
+      const challenge = await this.userTokenService.issueAsync(
+        user.id,
+        UserTokenPurpose.TwoFactorChallenge,
+        TWO_FACTOR_CHALLENGE_TTL_HOURS
+      );
+
+      return { twoFactorRequired: true, challengeToken: challenge.token, expiresAt: challenge.expiresAt };
+    }
+
+    return this.completeLoginAsync(user);
+  }
+
+  // Returns the user a pending challenge belongs to, so callers can throttle attempts per account
+  async getTwoFactorChallengeUserAsync(challengeToken: string): Promise<User | null> {
+    const userId = await this.userTokenService.verifyAsync(challengeToken, UserTokenPurpose.TwoFactorChallenge);
+    const user = userId ? await this.database.getUserById(userId) : null;
+
+    return user && user.isActive ? user : null;
+  }
+
+  async completeTwoFactorLoginAsync(challengeToken: string, code: string): Promise<AuthResponse | null> {
+    const user = await this.getTwoFactorChallengeUserAsync(challengeToken);
+
+    // A wrong code leaves the challenge usable; a correct one uses it up
+    if (!user || !(await this.twoFactorService.verifyCodeAsync(user.id, code))) {
+      return null;
+    }
+
+    if (!(await this.userTokenService.redeemAsync(challengeToken, UserTokenPurpose.TwoFactorChallenge))) {
+      return null;
+    }
+
+    return this.completeLoginAsync(user);
+  }
+
+  private async completeLoginAsync(user: User): Promise<AuthResponse> {
     // Update last login time
     await this.database.updateUser(user.id, {
       lastLoginAt: new Date().toISOString()
     });
 
-    const userContext: UserContext = {
-      userId: user.id,
-      username: user.username,
-      role: user.role
-    };
-
-    const token = this.jwtService.generateToken(userContext);
-    const expiresAt = this.jwtService.getExpirationDate();
-
-    return {
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role,
-        createdAt: user.createdAt,
-        lastLoginAt: user.lastLoginAt,
-        isActive: user.isActive
-      },
-      expiresAt: expiresAt.toISOString()
-    };
+    return this.sessionService.createSessionAsync(user);
   }
 
   async registerAsync(request: RegisterRequest): Promise<AuthResponse | null> {
     // Check if username or email already exists
-    const existingUser = await this.database.getUserByUsername(request.username);
+    const existingUser = await this.database.getUserByUsername(request.username) ||
+      await this.database.getUserByEmail(request.email);
     if (existingUser) {
       return null;
     }
@@ -73,33 +117,100 @@ export class UserService {
       passwordHash: hashedPassword,
       role: request.role || UserRole.Contributor,
       createdAt: new Date().toISOString(),
-      isActive: true
+      isActive: true,
+      mustChangePassword: false,
+      emailConfirmed: true
     };
 
     const user = await this.database.createUser(newUser);
 
-    const userContext: UserContext = {
-      userId: user.id,
-      username: user.username,
-      role: user.role
-    };
+    return this.sessionService.createSessionAsync(user);
+  }
 
-    const token = this.jwtService.generateToken(userContext);
-    const expiresAt = this.jwtService.getExpirationDate();
+  checkPasswordPolicy(password: string, username?: string): string | null {
+    return this.passwordService.checkPolicy(password, username);
+  }
 
-    return {
-      token,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        role: user.role,
-        createdAt: user.createdAt,
-        lastLoginAt: user.lastLoginAt,
-        isActive: user.isActive
-      },
-      expiresAt: expiresAt.toISOString()
-    };
+  async changePasswordAsync(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string
+  ): Promise<boolean> {
+    const user = await this.database.getUserById(userId);
+
+    if (!user || !(await this.passwordService.verifyPassword(currentPassword, user.passwordHash))) {
+      return false;
+    }
+
+    await this.setPasswordAsync(user.id, newPassword, currentSessionId);
+    return true;
+  }
+
+  async createPasswordResetAsync(userId: string): Promise<PasswordResetToken | null> {
+    const user = await this.database.getUserById(userId);
+
+    if (!user) {
+      return null;
+    }
+
+    return this.userTokenService.issueAsync(user.id, UserTokenPurpose.PasswordReset, PASSWORD_RESET_TOKEN_TTL_HOURS);
+  }
+
+  async resetPasswordAsync(token: string, newPassword: string): Promise<boolean> {
+    const userId = await this.userTokenService.redeemAsync(token, UserTokenPurpose.PasswordReset);
+
+    if (!userId) {
+      return false;
+    }
+
+    await this.setPasswordAsync(userId, newPassword);
+    return true;
+  }
+
+  async signInExternalAsync(identity: ExternalIdentity, defaultRole: UserRole): Promise<AuthResponse | null> {
+    let user = await this.database.getUserByExternalLogin(identity.provider, identity.subject);
+
+    if (!user) {
+      const existing = identity.email ? await this.database.getUserByEmail(identity.email) : null;
+
+      if (existing) {
+        // Only link to an existing account when the provider vouches for the shared address,
+        // and never to one whose second factor the provider would bypass
+        if (!identity.emailVerified || (await this.twoFactorService.isEnabledAsync(existing.id))) {
+          return null;
+        }
+        user = existing;
+      } else {
+        user = await this.database.createUser({
+          username: await this.getAvailableUsernameAsync(identity.username),
+          email: identity.email || `${identity.subject}@external.invalid`,
+          // External users have no local password; an empty hash never verifies
+          passwordHash: '',
+          role: identity.role || defaultRole,
+          createdAt: new Date().toISOString(),
+          isActive: true,
+          mustChangePassword: false,
+          emailConfirmed: true
+        });
+      }
+
+      await this.database.createExternalLogin(identity.provider, identity.subject, user.id);
+    }
+
+    // Covers accounts that turned on local two-factor authentication after being linked
+    if (!user.isActive || (await this.twoFactorService.isEnabledAsync(user.id))) {
+      return null;
+    }
+
+    const updates: Partial<User> = { lastLoginAt: new Date().toISOString() };
+    if (identity.role && identity.role !== user.role) {
+      updates.role = identity.role;
+    }
+
+    await this.database.updateUser(user.id, updates);
+
+    return this.sessionService.createSessionAsync({ ...user, ...updates });
   }
 
   async getUserByIdAsync(id: string): Promise<Omit<User, 'passwordHash'> | null> {
@@ -116,7 +227,9 @@ export class UserService {
       role: user.role,
       createdAt: user.createdAt,
       lastLoginAt: user.lastLoginAt,
-      isActive: user.isActive
+      isActive: user.isActive,
+      mustChangePassword: user.mustChangePassword,
+      emailConfirmed: user.emailConfirmed
     };
   }
 
@@ -130,7 +243,9 @@ export class UserService {
       role: user.role,
       createdAt: user.createdAt,
       lastLoginAt: user.lastLoginAt,
-      isActive: user.isActive
+      isActive: user.isActive,
+      mustChangePassword: user.mustChangePassword,
+      emailConfirmed: user.emailConfirmed
     }));
   }
 
@@ -140,13 +255,41 @@ export class UserService {
       delete updates.password;
     }
 
-    return this.database.updateUser(id, updates);
+    const updated = await this.database.updateUser(id, updates);
+
+    // Deactivated users lose their sessions immediately rather than when their refresh token expires
+    if (updated && updates.isActive === false) {
+      await this.sessionService.revokeAllSessionsAsync(id);
+    }
+
+    return updated;
   }
 
   async deleteUserAsync(id: string): Promise<boolean> {
     return this.database.deleteUser(id);
   }
 
+  private async setPasswordAsync(userId: string, newPassword: string, keepSessionId?: string): Promise<void> {
+    await this.database.updateUser(userId, {
+      passwordHash: await this.passwordService.hashPassword(newPassword),
+      mustChangePassword: false
+    });
+
+    // Anyone holding the old password may have signed in with it, so only the caller's own session survives
+    await this.sessionService.revokeAllSessionsAsync(userId, keepSessionId);
+    await this.userTokenService.invalidateAsync(userId, UserTokenPurpose.PasswordReset);
+  }
+
+  private async getAvailableUsernameAsync(preferred: string): Promise<string> {
+    let candidate = preferred;
+
+    for (let suffix = 2; await this.database.getUserByUsername(candidate); suffix++) {
+      candidate = `${preferred}-${suffix}`;
+    }
+
+    return candidate;
+  }
+
   // Public methods for initialization
   async getUserByUsernameForInit(username: string): Promise<User | null> {
     return this.database.getUserByUsername(username);
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { Database } from '../database';
+import { UserToken, UserTokenPurpose } from '../models';
+import { generateRandomToken, hashToken, tokenHashesMatch } from '../utils';
+
+export class UserTokenService {
+  private database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+  }
+
+  async issueAsync(userId: string, purpose: UserTokenPurpose, ttlHours: number): Promise<{ token: string; expiresAt: string }> {
+    // Only the most recently issued token for a purpose is usable
+    await this.database.invalidateUserTokens(userId, purpose);
+
+    const id = crypto.randomUUID();
+    const token = `${id}.${generateRandomToken()}`;
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlHours * 60 * 60 * 1000).toISOString();
+
+    await this.database.createUserToken({
+      id,
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      createdAt: now.toISOString(),
+      expiresAt
+    });
+
+    return { token, expiresAt };
+  }
+
+  // Returns the owning user id, or null if the token is unknown, expired or already used
+  async redeemAsync(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+    const stored = await this.findValidTokenAsync(token, purpose);
+
+    if (!stored) {
+      return null;
+    }
+
+    return (await this.database.markUserTokenUsed(stored.id)) ? stored.userId : null;
+  }
+
+  // Like redeemAsync, but leaves the token usable
+  async verifyAsync(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+    const stored = await this.findValidTokenAsync(token, purpose);
+    return stored ? stored.userId : null;
+  }
+
+  async invalidateAsync(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    await this.database.invalidateUserTokens(userId, purpose);
+  }
+
+  private async findValidTokenAsync(token: string, purpose: UserTokenPurpose): Promise<UserToken | null> {
+    const stored = await this.database.getUserToken(token.split('.')[0], purpose);
+
+    if (
+      !stored ||
+      stored.usedAt ||
+      stored.expiresAt <= new Date().toISOString() ||
+      !tokenHashesMatch(hashToken(token), stored.tokenHash)
+    ) {
+      return null;
+    }
+
+    return stored;
+  }
+}
\ No newline at end of file
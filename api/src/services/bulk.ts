@@ -0,0 +1,30 @@
+import { AccessDeniedError } from './AccessControlService';
+import { BulkItemResult, BulkOperationResult } from '../models';
+
+export type BulkItemOperation = (fileName: string) => Promise<Omit<BulkItemResult, 'fileName' | 'success'>>;
+
+/**
+ * Applies an operation to each file in turn and collects a result per file, so one failure
+ * doesn't stop the rest. Duplicate names are processed once.
+ */
+export async function runBulkAsync(fileNames: string[], operation: BulkItemOperation): Promise<BulkOperationResult> {
+  const results: BulkItemResult[] = [];
+
+  for (const fileName of [...new Set(fileNames)]) {
+    try {
+      const outcome = await operation(fileName);
+      results.push({ fileName, success: outcome.status < 400, ...outcome });
+    } catch (error) {
+      if (error instanceof AccessDeniedError) {
+        results.push({ fileName, success: false, status: 403, message: error.message });
+        continue;
+      }
+
+      console.error(`Error in bulk operation on '${fileName}':`, error);
+      results.push({ fileName, success: false, status: 500, message: 'Internal server error' });
+    }
+  }
+
+  const succeeded = results.filter(result => result.success).length;
+  return { succeeded, failed: results.length - succeeded, results };
+}
\ No newline at end of file
@@ -1,3 +1,18 @@
+export * from './AccessControlService';
 export * from './BlobStorageService';
 export * from './UserService';
-export * from './TagsService';
\ No newline at end of file
+export * from './TagsService';
+export * from './PromotionService';
+export * from './SignOffService';
+export * from './OidcService';
+export * from './SamlService';
+export * from './SessionService';
+export * from './ApiKeyService';
+export * from './UserTokenService';
+export * from './MailService';
+export * from './RegistrationService';
+export * from './LoginThrottleService';
+export * from './TwoFactorService';
+export * from './AuditService';
+export * from './UploadSessionService';
+export * from './bulk';
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { FilePermission, HiddenPath, PathAccess, PathAccessRule } from '../models';
+
+/**
+ * Folder prefixes (ending in `/`) cover everything below them, file prefixes only the file itself.
+ */
+export function matchesPathPrefix(path: string, pathPrefix: string): boolean {
+  return pathPrefix.endsWith('/') ? path.startsWith(pathPrefix) : path === pathPrefix;
+}
+
+/**
+ * Normalizes a grant path to `a/b/` for folders or `a/b.cpd` for single files.
+ * Returns null for empty paths or paths containing `.`/`..` segments.
+ */
+export function normalizeGrantPath(path: string): string | null {
+  const segments = path.trim().split('/').filter(segment => segment.length > 0);
+
+  if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+    return null;
+  }
+
+  const normalized = segments.join('/');
+  return path.trim().endsWith('/') ? `${normalized}/` : normalized;
+}
+
+function findGoverningRule(access: PathAccess, path: string): PathAccessRule | undefined {
+  // The most specific restricted prefix wins, so a sub-folder can open up or lock down its parent
+  return access.rules
+    .filter(rule => matchesPathPrefix(path, rule.pathPrefix))
+    .reduce<PathAccessRule | undefined>(
+      (best, rule) => !best || rule.pathPrefix.length > best.pathPrefix.length ? rule : best,
+      undefined
+    );
+}
+
+export function canAccessPath(access: PathAccess, path: string, permission: FilePermission): boolean {
+  const rule = findGoverningRule(access, path);
+  return (rule ? rule.permissions : access.defaultPermissions).includes(permission);
+}
+
+/**
+ * Checks a folder operation that touches everything below `folderPath`, including restricted sub-paths.
+ */
+export function canAccessTree(access: PathAccess, folderPath: string, permission: FilePermission): boolean {
+  return canAccessPath(access, folderPath, permission)
+    && access.rules
+      .filter(rule => matchesPathPrefix(rule.pathPrefix, folderPath))
+      .every(rule => rule.permissions.includes(permission));
+}
+
+/**
+ * Lists the paths a user may not read, for filtering index queries in SQL.
+ * Readable rules nested below a hidden path are carved back out of it.
+ */
+export function getHiddenPaths(access: PathAccess): HiddenPath[] {
+  const readable = access.rules.filter(rule => rule.permissions.includes(FilePermission.Read));
+  const hidden = access.rules.filter(rule => !rule.permissions.includes(FilePermission.Read));
+
+  return hidden.map(rule => ({
+    pathPrefix: rule.pathPrefix,
+    except: readable
+      .filter(nested => nested.pathPrefix.length > rule.pathPrefix.length && matchesPathPrefix(nested.pathPrefix, rule.pathPrefix))
+      .map(nested => nested.pathPrefix)
+  }));
+}
\ No newline at end of file
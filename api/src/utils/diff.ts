@@ -0,0 +1,199 @@
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text; absent for lines only one side has
+  fromLine?: number;
+  toLine?: number;
+}
+
+export interface DiffHunk {
+  fromStart: number;
+  fromLines: number;
+  toStart: number;
+  toLines: number;
+  lines: DiffLine[];
+}
+
+export class DiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiffError';
+  }
+}
+
+type EditOperation = 'equal' | 'insert' | 'delete';
+
+// Bounds the work and memory spent on texts that have little in common
+const MAX_EDITS = 2000;
+
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  // A trailing newline ends the last line rather than starting an empty one
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+// Myers' O(ND) algorithm, keeping the furthest-reaching paths of every step for the backtrack
+function computeEdits(from: string[], to: string[]): EditOperation[] {
+  const n = from.length;
+  const m = to.length;
+  const limit = Math.min(n + m, MAX_EDITS);
+  const offset = limit + 1;
+  const trace: Int32Array[] = [];
+  const v = new Int32Array(2 * limit + 3);
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && from[x] === to[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m, offset);
+      }
+    }
+  }
+
+  throw new DiffError(`The versions differ in more than ${MAX_EDITS} lines`);
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, offset: number): EditOperation[] {
+  const edits: EditOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = v[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      edits.push(x === previousX ? 'insert' : 'delete');
+    }
+
+    x = previousX;
+    y = previousY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Compares two texts line by line and groups the changes into hunks with `context` unchanged
+ * lines around them, as in a unified diff. Throws a DiffError when the texts differ too much.
+ */
+export function diffLines(fromText: string, toText: string, context = 3): DiffHunk[] {
+  const from = splitLines(fromText);
+  const to = splitLines(toText);
+
+  // Only the part between the common prefix and suffix needs the full algorithm
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < from.length - prefix &&
+    suffix < to.length - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const edits: EditOperation[] = [
+    ...new Array<EditOperation>(prefix).fill('equal'),
+    ...computeEdits(from.slice(prefix, from.length - suffix), to.slice(prefix, to.length - suffix)),
+    ...new Array<EditOperation>(suffix).fill('equal')
+  ];
+
+  const lines: DiffLine[] = [];
+  let fromIndex = 0;
+  let toIndex = 0;
+
+  for (const edit of edits) {
+    if (edit === 'equal') {
+      lines.push({ type: 'context', text: from[fromIndex], fromLine: ++fromIndex, toLine: ++toIndex });
+    } else if (edit === 'delete') {
+      lines.push({ type: 'removed', text: from[fromIndex], fromLine: ++fromIndex });
+    } else {
+      lines.push({ type: 'added', text: to[toIndex], toLine: ++toIndex });
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let position = 0;
+
+  while (position < lines.length) {
+    if (lines[position].type === 'context') {
+      position++;
+      continue;
+    }
+
+    // Changes separated by no more than twice the context share a hunk
+    let lastChange = position;
+    let scan = position;
+    while (scan < lines.length && scan - lastChange <= 2 * context) {
+      if (lines[scan].type !== 'context') {
+        lastChange = scan;
+      }
+      scan++;
+    }
+
+    const start = Math.max(0, position - context);
+    const end = Math.min(lines.length, lastChange + context + 1);
+    hunks.push(toHunk(lines.slice(start, end), lines, start));
+    position = end;
+  }
+
+  return hunks;
+}
+
+function toHunk(hunkLines: DiffLine[], allLines: DiffLine[], start: number): DiffHunk {
+  const fromLines = hunkLines.filter(line => line.type !== 'added').length;
+  const toLines = hunkLines.filter(line => line.type !== 'removed').length;
+
+  // Line counts before the hunk, which is also where an empty side starts in unified diff notation
+  const before = allLines.slice(0, start);
+  const fromBefore = before.filter(line => line.type !== 'added').length;
+  const toBefore = before.filter(line => line.type !== 'removed').length;
+
+  return {
+    fromStart: fromLines > 0 ? fromBefore + 1 : fromBefore,
+    fromLines,
+    toStart: toLines > 0 ? toBefore + 1 : toBefore,
+    toLines,
+    lines: hunkLines
+  };
+}
+
+export function formatUnifiedDiff(hunks: DiffHunk[], fromLabel: string, toLabel: string): string {
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  const markers = { context: ' ', added: '+', removed: '-' };
+
+  for (const hunk of hunks) {
+    output.push(`@@ -${hunk.fromStart},${hunk.fromLines} +${hunk.toStart},${hunk.toLines} @@`);
+    output.push(...hunk.lines.map(line => `${markers[line.type]}${line.text}`));
+  }
+
+  return `${output.join('\n')}\n`;
+}
\ No newline at end of file
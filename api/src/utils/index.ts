@@ -1,2 +1,11 @@
 export * from './jwt';
-export * from './password';
\ No newline at end of file
+export * from './password';
+export * from './paths';
+export * from './pagination';
+export * from './search';
+export * from './tagExpression';
+export * from './tokens';
+export * from './roles';
+export * from './totp';
+export * from './access';
+export * from './diff';
\ No newline at end of file
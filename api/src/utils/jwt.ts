@@ -5,17 +5,18 @@ export interface JwtPayload {
   userId: string;
   username: string;
   role: number;
+  sessionId?: string;
 }
 
 export class JwtService {
   private secret: string;
-  private expiryInHours: number;
+  private expiryInMinutes: number;
   private issuer: string;
   private audience: string;
 
-  constructor(secret: string, expiryInHours: number, issuer: string, audience: string) {
+  constructor(secret: string, expiryInMinutes: number, issuer: string, audience: string) {
     this.secret = secret;
-    this.expiryInHours = expiryInHours;
+    this.expiryInMinutes = expiryInMinutes;
     this.issuer = issuer;
     this.audience = audience;
   }
@@ -24,11 +25,12 @@ export class JwtService {
     const payload: JwtPayload = {
       userId: userContext.userId,
       username: userContext.username,
-      role: userContext.role
+      role: userContext.role,
+      sessionId: userContext.sessionId
     };
 
     return jwt.sign(payload, this.secret, {
-      expiresIn: `${this.expiryInHours}h`,
+      expiresIn: `${this.expiryInMinutes}m`,
       issuer: this.issuer,
       audience: this.audience
     });
@@ -48,6 +50,6 @@ export class JwtService {
   }
 
   getExpirationDate(): Date {
-    return new Date(Date.now() + this.expiryInHours * 60 * 60 * 1000);
+    return new Date(Date.now() + this.expiryInMinutes * 60 * 1000);
   }
 }
\ No newline at end of file
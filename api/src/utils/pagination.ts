@@ -0,0 +1,16 @@
+/**
+ * Cursors are opaque to clients: the sort key of the last item on a page,
+ * serialized as base64url JSON.
+ */
+export function encodeCursor(values: (string | number)[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): (string | number)[] | null {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(values) ? values : null;
+  } catch (error) {
+    return null;
+  }
+}
\ No newline at end of file
@@ -1,7 +1,27 @@
 import bcrypt from 'bcryptjs';
+import { PasswordPolicy } from '../models';
+
+// Includes the bootstrap admin password so it can never be set again deliberately
+const COMMON_PASSWORDS = new Set([
+  'admin123',
+  'password',
+  'password1',
+  'password123',
+  '123456789',
+  '1234567890',
+  'qwerty123',
+  'letmein123',
+  'welcome123',
+  'changeme123'
+]);
 
 export class PasswordService {
   private saltRounds = 12;
+  private policy: PasswordPolicy;
+
+  constructor(policy: PasswordPolicy) {
+    this.policy = policy;
+  }
 
   async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, this.saltRounds);
@@ -10,4 +30,28 @@ export class PasswordService {
   async verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
     return bcrypt.compare(password, hashedPassword);
   }
+
+  // Returns a description of the first rule the password breaks, or null if it is acceptable
+  checkPolicy(password: string, username?: string): string | null {
+    if (password.length < this.policy.minLength) {
+      return `Password must be at least ${this.policy.minLength} characters long`;
+    }
+    if (this.policy.requireLetter && !/\p{L}/u.test(password)) {
+      return 'Password must contain a letter';
+    }
+    if (this.policy.requireDigit && !/\d/.test(password)) {
+      return 'Password must contain a digit';
+    }
+    if (this.policy.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+      return 'Password must contain a symbol';
+    }
+    if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+      return 'Password is too common';
+    }
+    if (username && password.toLowerCase().includes(username.toLowerCase())) {
+      return 'Password must not contain the username';
+    }
+
+    return null;
+  }
 }
\ No newline at end of file
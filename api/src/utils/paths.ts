@@ -0,0 +1,28 @@
+/**
+ * Normalizes a folder path to the `a/b/c/` prefix form used for object keys.
+ * Returns null for empty paths or paths containing `.`/`..` segments.
+ */
+export function normalizeFolderPath(path: string): string | null {
+  const segments = path.trim().split('/').filter(segment => segment.length > 0);
+
+  if (segments.length === 0 || segments.some(segment => segment === '.' || segment === '..')) {
+    return null;
+  }
+
+  return `${segments.join('/')}/`;
+}
+
+/**
+ * Normalizes a relative file path such as `sub/beam.cpd` to the `a/b/c` form used for object keys.
+ * Returns null for empty paths, paths ending in `/` or paths containing `.`/`..` segments.
+ */
+export function normalizeFilePath(path: string): string | null {
+  const trimmed = path.trim().replace(/\\/g, '/');
+  const segments = trimmed.split('/').filter(segment => segment.length > 0);
+
+  if (segments.length === 0 || trimmed.endsWith('/') || segments.some(segment => segment === '.' || segment === '..')) {
+    return null;
+  }
+
+  return segments.join('/');
+}
\ No newline at end of file
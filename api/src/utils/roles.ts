@@ -0,0 +1,21 @@
+import { RoleMapping, UserRole } from '../models';
+
+/**
+ * Maps role or group names asserted by an identity provider to the highest matching UserRole.
+ * Returns undefined when nothing matches so callers can keep the user's current role.
+ */
+export function mapExternalRoles(roles: string[], mapping: RoleMapping): UserRole | undefined {
+  const hasAny = (mapped: string[]) => mapped.some(role => roles.includes(role));
+
+  if (hasAny(mapping.adminRoles)) {
+    return UserRole.Admin;
+  }
+  if (hasAny(mapping.contributorRoles)) {
+    return UserRole.Contributor;
+  }
+  if (hasAny(mapping.viewerRoles)) {
+    return UserRole.Viewer;
+  }
+
+  return undefined;
+}
\ No newline at end of file
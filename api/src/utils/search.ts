@@ -0,0 +1,17 @@
+/**
+ * Turns free text into an FTS5 MATCH expression: every word must appear,
+ * and a trailing `*` keeps its prefix-search meaning. Quoting each word
+ * stops user input from being parsed as FTS5 syntax.
+ */
+export function buildFullTextQuery(text: string): string | null {
+  const terms = text.split(/\s+/)
+    .map(term => term.trim())
+    .filter(term => term.replace(/\*$/, '').length > 0)
+    .map(term => {
+      const isPrefix = term.endsWith('*');
+      const word = (isPrefix ? term.slice(0, -1) : term).replace(/"/g, '""');
+      return isPrefix ? `"${word}"*` : `"${word}"`;
+    });
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
\ No newline at end of file
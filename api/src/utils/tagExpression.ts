@@ -0,0 +1,128 @@
+export type TagExpression =
+  | { type: 'tag'; name: string }
+  | { type: 'not'; operand: TagExpression }
+  | { type: 'and' | 'or'; left: TagExpression; right: TagExpression };
+
+export class TagExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TagExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'tag'; value: string };
+
+const MAX_EXPRESSION_DEPTH = 32;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const char = input[position];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen' });
+      position++;
+    } else if (char === '"') {
+      // Quoted tags may contain spaces, parentheses or operator words
+      const end = input.indexOf('"', position + 1);
+      if (end < 0) {
+        throw new TagExpressionError('Unterminated quoted tag');
+      }
+      tokens.push({ type: 'tag', value: input.slice(position + 1, end) });
+      position = end + 1;
+    } else {
+      let end = position;
+      while (end < input.length && !/[\s()"]/.test(input[end])) {
+        end++;
+      }
+
+      const word = input.slice(position, end);
+      const keyword = word.toUpperCase();
+      if (keyword === 'AND' || keyword === 'OR' || keyword === 'NOT') {
+        tokens.push({ type: keyword.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ type: 'tag', value: word });
+      }
+      position = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses boolean tag expressions such as `Reviewed AND (Structural OR Geotech) AND NOT Draft`.
+ * Precedence is NOT > AND > OR; adjacent terms without an operator are ANDed.
+ */
+export function parseTagExpression(input: string): TagExpression {
+  const tokens = tokenize(input);
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const parseOr = (depth: number): TagExpression => {
+    let left = parseAnd(depth);
+    while (peek()?.type === 'or') {
+      position++;
+      left = { type: 'or', left, right: parseAnd(depth) };
+    }
+    return left;
+  };
+
+  const parseAnd = (depth: number): TagExpression => {
+    let left = parseUnary(depth);
+    for (let next = peek(); next && next.type !== 'or' && next.type !== 'rparen'; next = peek()) {
+      if (next.type === 'and') {
+        position++;
+      }
+      left = { type: 'and', left, right: parseUnary(depth) };
+    }
+    return left;
+  };
+
+  const parseUnary = (depth: number): TagExpression => {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      throw new TagExpressionError('Tag expression is nested too deeply');
+    }
+
+    const token = peek();
+    if (!token) {
+      throw new TagExpressionError('Unexpected end of tag expression');
+    }
+
+    position++;
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', operand: parseUnary(depth + 1) };
+      case 'lparen': {
+        const inner = parseOr(depth + 1);
+        if (peek()?.type !== 'rparen') {
+          throw new TagExpressionError('Missing closing parenthesis');
+        }
+        position++;
+        return inner;
+      }
+      case 'tag':
+        if (token.value.length === 0) {
+          throw new TagExpressionError('Empty tag name');
+        }
+        return { type: 'tag', name: token.value };
+      default:
+        throw new TagExpressionError(`Unexpected '${token.type.toUpperCase()}' in tag expression`);
+    }
+  };
+
+  const expression = parseOr(0);
+
+  if (position < tokens.length) {
+    throw new TagExpressionError('Unexpected closing parenthesis');
+  }
+
+  return expression;
+}
\ No newline at end of file
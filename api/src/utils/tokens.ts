@@ -0,0 +1,18 @@
+import crypto from 'crypto';
+
+export function generateRandomToken(byteLength = 32): string {
+  return crypto.randomBytes(byteLength).toString('base64url');
+}
+
+export function createCodeChallenge(codeVerifier: string): string {
+  // S256 challenge as defined in RFC 7636
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function tokenHashesMatch(a: string, b: string): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
\ No newline at end of file
@@ -9,6 +9,7 @@ createApp({
             isAuthenticated: false,
             currentUser: null,
             authToken: null,
+            refreshToken: null,
             
             // UI State
             activeTab: 'files',
@@ -22,6 +23,13 @@ createApp({
                 username: '',
                 password: ''
             },
+            twoFactorChallenge: null,
+            twoFactorCode: '',
+            passwordChangeRequired: false,
+            passwordForm: {
+                currentPassword: '',
+                newPassword: ''
+            },
             
             // Files
             files: [],
@@ -76,18 +84,22 @@ createApp({
                 );
             }
             
-            // Tag filter
-            if (this.selectedTags.length > 0) {
-                filtered = filtered.filter(file => {
-                    if (!file.tags || file.tags.length === 0) return false;
-                    return this.selectedTags.some(tag => file.tags.includes(tag));
-                });
-            }
-            
             return filtered;
         }
     },
     
+    watch: {
+        // Tag filtering happens server-side, so reload whenever the selection changes
+        selectedTags: {
+            handler() {
+                if (this.isAuthenticated) {
+                    this.refreshFiles();
+                }
+            },
+            deep: true
+        }
+    },
+    
     async mounted() {
         // Initialize theme
         this.initTheme();
@@ -96,10 +108,12 @@ createApp({
         const token = localStorage.getItem('authToken');
         if (token) {
             this.authToken = token;
+            this.refreshToken = localStorage.getItem('refreshToken');
             try {
                 await this.verifyToken();
             } catch (error) {
                 localStorage.removeItem('authToken');
+                localStorage.removeItem('refreshToken');
             }
         }
     },
@@ -115,11 +129,7 @@ createApp({
                 ...options
             };
             
-            if (this.authToken) {
-                config.headers.Authorization = `Bearer ${this.authToken}`;
-            }
-            
-            const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
+            const response = await this.authorizedFetch(`${API_BASE_URL}${endpoint}`, config);
             
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}));
@@ -129,6 +139,57 @@ createApp({
             return response.json();
         },
         
+        // Sends the access token and, if it has expired, refreshes the session once and retries
+        async authorizedFetch(url, options = {}) {
+            const send = () => fetch(url, {
+                ...options,
+                headers: {
+                    ...options.headers,
+                    ...(this.authToken ? { Authorization: `Bearer ${this.authToken}` } : {})
+                }
+            });
+            
+            const response = await send();
+            
+            if (response.status === 401 && this.refreshToken && await this.refreshSession()) {
+                return send();
+            }
+            
+            return response;
+        },
+        
+        async refreshSession() {
+            const response = await fetch(`${API_BASE_URL}/api/auth/refresh`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ refreshToken: this.refreshToken })
+            });
+            
+            if (!response.ok) {
+                this.clearSession();
+                return false;
+            }
+            
+            this.storeSession(await response.json());
+            return true;
+        },
+        
+        storeSession(authResponse) {
+            this.authToken = authResponse.token;
+            this.refreshToken = authResponse.refreshToken;
+            localStorage.setItem('authToken', this.authToken);
+            localStorage.setItem('refreshToken', this.refreshToken);
+        },
+        
+        clearSession() {
+            this.isAuthenticated = false;
+            this.currentUser = null;
+            this.authToken = null;
+            this.refreshToken = null;
+            localStorage.removeItem('authToken');
+            localStorage.removeItem('refreshToken');
+        },
+        
         // Authentication
         async login() {
             this.loading = true;
@@ -140,22 +201,13 @@ createApp({
                     body: JSON.stringify(this.loginForm)
                 });
                 
-                this.authToken = response.token;
-                this.currentUser = response.user;
-                this.isAuthenticated = true;
-                
-                localStorage.setItem('authToken', this.authToken);
-                
-                // Load initial data
-                await Promise.all([
-                    this.refreshFiles(),
-                    this.refreshTags()
-                ]);
-                
-                if (this.isAdmin) {
-                    await this.refreshUsers();
+                // Accounts with two-factor authentication answer a challenge before getting a session
+                if (response.twoFactorRequired) {
+                    this.twoFactorChallenge = response.challengeToken;
+                    return;
                 }
                 
+                await this.completeLogin(response);
             } catch (error) {
                 this.error = error.message;
             } finally {
@@ -163,9 +215,58 @@ createApp({
             }
         },
         
+        async submitTwoFactorCode() {
+            this.loading = true;
+            this.error = null;
+            
+            try {
+                const response = await this.apiCall('/api/auth/login/2fa', {
+                    method: 'POST',
+                    body: JSON.stringify({ challengeToken: this.twoFactorChallenge, code: this.twoFactorCode })
+                });
+                
+                this.twoFactorChallenge = null;
+                this.twoFactorCode = '';
+                await this.completeLogin(response);
+            } catch (error) {
+                this.error = error.message;
+            } finally {
+                this.loading = false;
+            }
+        },
+        
+        async completeLogin(response) {
+            this.storeSession(response);
+            this.currentUser = response.user;
+            
+            if (response.user.mustChangePassword) {
+                this.passwordChangeRequired = true;
+                this.passwordForm.currentPassword = this.loginForm.password;
+                return;
+            }
+            
+            this.isAuthenticated = true;
+            
+            // Load initial data
+            await Promise.all([
+                this.refreshFiles(),
+                this.refreshTags()
+            ]);
+            
+            if (this.isAdmin) {
+                await this.refreshUsers();
+            }
+        },
+        
         async verifyToken() {
             const response = await this.apiCall('/api/auth/profile');
             this.currentUser = response;
+            
+            if (response.mustChangePassword) {
+                this.passwordChangeRequired = true;
+                return;
+            }
+            
             this.isAuthenticated = true;
             
             // Load initial data
@@ -179,31 +280,55 @@ createApp({
             }
         },
         
-        logout() {
-            this.isAuthenticated = false;
-            this.currentUser = null;
-            this.authToken = null;
+        async changePassword() {
+            this.loading = true;
+            this.error = null;
+            
+            try {
+                await this.apiCall('/api/auth/password', {
+                    method: 'PUT',
+                    body: JSON.stringify(this.passwordForm)
+                });
+                
+                this.passwordChangeRequired = false;
+                this.passwordForm = { currentPassword: '', newPassword: '' };
+                await this.verifyToken();
+            } catch (error) {
+                this.error = error.message;
+            } finally {
+                this.loading = false;
+            }
+        },
+        
+        async logout() {
+            if (this.authToken) {
+                // Best effort: the session is dropped locally even if the server can't be reached
+                await this.apiCall('/api/auth/logout', { method: 'POST' }).catch(() => {});
+            }
+            
+            this.clearSession();
+            this.twoFactorChallenge = null;
+            this.twoFactorCode = '';
+            this.passwordChangeRequired = false;
             this.loginForm = { username: '', password: '' };
-            localStorage.removeItem('authToken');
         },
         
         // Files
         async refreshFiles() {
             this.loading = true;
             try {
-                const filesData = await this.apiCall('/api/blobstorage/list-with-metadata');
+                let filesData;
                 
-                // Get tags for each file
-                for (const file of filesData) {
-                    try {
-                        const tagsResponse = await this.apiCall(`/api/blobstorage/tags/${encodeURIComponent(file.fileName)}`);
-                        file.tags = tagsResponse.tags;
-                    } catch (error) {
-                        file.tags = [];
-                    }
+                if (this.selectedTags.length > 0) {
+                    // Files carrying any of the selected tags
+                    const expression = this.selectedTags.map(tag => `"${tag}"`).join(' OR ');
+                    filesData = await this.apiCall(`/api/blobstorage/search?tags=${encodeURIComponent(expression)}&limit=500`);
+                } else {
+                    filesData = await this.apiCall('/api/blobstorage/list-with-metadata');
                 }
                 
-                this.files = filesData;
+                // Listings include each file's tags; folders are not shown in the flat view
+                this.files = filesData.filter(file => !file.isDir).map(file => ({ ...file, tags: file.tags || [] }));
             } catch (error) {
                 this.error = error.message;
             } finally {
@@ -234,17 +359,14 @@ createApp({
             
             try {
                 // Download file with proper authorization
-                const response = await fetch(`${API_BASE_URL}/api/blobstorage/download/${encodeURIComponent(this.selectedFile.fileName)}`, {
-                    method: 'GET',
-                    headers: {
-                        'Authorization': `Bearer ${this.authToken}`
-                    }
+                const response = await this.authorizedFetch(`${API_BASE_URL}/api/blobstorage/download/${encodeURIComponent(this.selectedFile.fileName)}`, {
+                    method: 'GET'
                 });
                 
                 if (!response.ok) {
                     if (response.status === 401) {
                         this.error = 'Authentication failed. Please log in again.';
-                        this.logout();
+                        this.clearSession();
                         return;
                     }
                     const errorText = await response.text();
@@ -292,18 +414,22 @@ createApp({
             this.error = null;
             
             try {
+                // Fields must precede the file, the API streams the file part straight into storage
                 const formData = new FormData();
-                formData.append('file', this.uploadFile);
                 formData.append('tags', JSON.stringify(this.uploadTags));
+                formData.append('file', this.uploadFile);
                 
-                await fetch(`${API_BASE_URL}/api/blobstorage/upload`, {
+                const response = await this.authorizedFetch(`${API_BASE_URL}/api/blobstorage/upload`, {
                     method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${this.authToken}`
-                    },
                     body: formData
                 });
                 
+                // Oversized files are rejected with 413 and the configured limit in the message
+                if (!response.ok) {
+                    const errorData = await response.json().catch(() => ({}));
+                    throw new Error(errorData.message || `HTTP ${response.status}`);
+                }
+                
                 this.showUploadModal = false;
                 this.uploadFile = null;
                 this.uploadTags = [];